@@ -0,0 +1,309 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import OpenAI from "openai";
+import type { Connect, Plugin } from "vite";
+import {
+  RewriteRequestSchema,
+  TranslateRequestSchema,
+  type GenerateStreamEvent,
+  type ListingFormState,
+} from "../src/lib/listing";
+import type { ModelsResponse } from "../src/lib/models";
+import {
+  PhotoAnalysisRequestSchema,
+  createMockVisionProvider,
+  type VisionProvider,
+} from "../src/lib/photos";
+import {
+  GenerateRequestSchema,
+  type PromptTemplate,
+} from "../src/lib/promptTemplate";
+import {
+  UnknownModelError,
+  createMockProvider,
+  createOpenAIProvider,
+  createOpenAIVisionProvider,
+  listModels,
+  resolveModel,
+  type ProviderRegistry,
+} from "./backend";
+
+// -----------------------------
+// HELPERS
+// -----------------------------
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : {};
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+};
+
+const errorMessage = (e: unknown) =>
+  e instanceof Error ? e.message : String(e);
+
+const ROUTES = [
+  "/api/models",
+  "/api/generate",
+  "/api/generate/stream",
+  "/api/rewrite",
+  "/api/translate",
+  "/api/photos/analyze",
+];
+
+/**
+ * Streams NDJSON events while generating. Closing the connection aborts the
+ * upstream request.
+ */
+const streamGenerate = async (
+  providers: ProviderRegistry,
+  form: ListingFormState,
+  { template, model }: { template?: PromptTemplate; model?: string },
+  res: ServerResponse
+) => {
+  const { provider, model: name } = resolveModel(providers, model);
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const send = (event: GenerateStreamEvent) =>
+    res.write(JSON.stringify(event) + "\n");
+
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "application/x-ndjson");
+  res.setHeader("Cache-Control", "no-cache");
+
+  try {
+    const outputs = await provider.stream(form, {
+      template,
+      model: name,
+      signal: controller.signal,
+      onDelta: (text) => send({ type: "delta", text }),
+      onRetry: (issues) => send({ type: "retry", issues }),
+    });
+    send({ type: "done", outputs });
+  } catch (e) {
+    if (!controller.signal.aborted) {
+      console.error(e);
+      send({ type: "error", error: errorMessage(e) });
+    }
+  }
+  res.end();
+};
+
+// -----------------------------
+// ROUTES
+// -----------------------------
+export const createListingApi = (
+  providers: ProviderRegistry,
+  vision: VisionProvider = createMockVisionProvider()
+): Connect.NextHandleFunction => {
+  return async (req, res, next) => {
+    const path = req.url?.split("?")[0];
+    if (!path || !ROUTES.includes(path)) return next();
+
+    if (path === "/api/models" && req.method === "GET") {
+      const models = listModels(providers);
+      const body: ModelsResponse = { models, default: models[0].id };
+      sendJson(res, 200, body);
+      return;
+    }
+
+    if (path === "/api/models" || req.method !== "POST") {
+      sendJson(res, 405, { error: "Method not allowed." });
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJson(req);
+    } catch {
+      sendJson(res, 400, { error: "Request body must be valid JSON." });
+      return;
+    }
+
+    try {
+      if (path === "/api/photos/analyze") {
+        const parsed = PhotoAnalysisRequestSchema.safeParse(body);
+        if (!parsed.success) {
+          sendJson(res, 400, { error: "Invalid photo analysis request." });
+          return;
+        }
+        const features = await vision.suggestFeatures(parsed.data.photos);
+        sendJson(res, 200, { features });
+        return;
+      }
+
+      if (path === "/api/translate") {
+        const parsed = TranslateRequestSchema.safeParse(body);
+        if (!parsed.success) {
+          sendJson(res, 400, { error: "Invalid translate request." });
+          return;
+        }
+        const { model, ...request } = parsed.data;
+        const resolved = resolveModel(providers, model);
+        const outputs = await resolved.provider.translate(request, {
+          model: resolved.model,
+        });
+        sendJson(res, 200, { outputs });
+        return;
+      }
+
+      if (path !== "/api/rewrite") {
+        const parsed = GenerateRequestSchema.safeParse(body);
+        if (!parsed.success) {
+          sendJson(res, 400, { error: "Invalid listing form." });
+          return;
+        }
+        const { template, model, ...form } = parsed.data;
+        if (path === "/api/generate/stream") {
+          await streamGenerate(providers, form, { template, model }, res);
+          return;
+        }
+        const resolved = resolveModel(providers, model);
+        const outputs = await resolved.provider.generate(form, {
+          template,
+          model: resolved.model,
+        });
+        sendJson(res, 200, { outputs });
+        return;
+      }
+
+      const parsed = RewriteRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        sendJson(res, 400, { error: "Invalid rewrite request." });
+        return;
+      }
+      const { model, ...request } = parsed.data;
+      const resolved = resolveModel(providers, model);
+      const text = await resolved.provider.rewrite(request, {
+        model: resolved.model,
+      });
+      sendJson(res, 200, { text });
+    } catch (e) {
+      if (e instanceof UnknownModelError) {
+        sendJson(res, 400, { error: e.message });
+        return;
+      }
+      console.error(e);
+      // Pass upstream rate limits through so clients can back off.
+      const status = (e as { status?: number }).status === 429 ? 429 : 502;
+      sendJson(res, status, { error: errorMessage(e) });
+    }
+  };
+};
+
+// -----------------------------
+// VITE PLUGIN
+// -----------------------------
+type ListingApiOptions = {
+  apiKey?: string;
+  mock?: boolean;
+  /** Comma-separated OpenAI models to offer; the first is the default. */
+  openaiModels?: string;
+  /** OpenAI-compatible server for generation, e.g. a local Ollama. */
+  localBaseUrl?: string;
+  /** Sent only to `localBaseUrl`; the OpenAI key never leaves for it. */
+  localApiKey?: string;
+  localModels?: string;
+  /** OpenAI-compatible server for photo analysis, e.g. a local Ollama. */
+  visionBaseUrl?: string;
+  /** Sent only to `visionBaseUrl`; the OpenAI key never leaves for it. */
+  visionApiKey?: string;
+  visionModel?: string;
+};
+
+const createVisionProvider = ({
+  apiKey,
+  mock,
+  visionBaseUrl,
+  visionApiKey,
+  visionModel,
+}: ListingApiOptions): VisionProvider => {
+  if (mock) return createMockVisionProvider();
+  if (visionBaseUrl) {
+    // Local servers ignore the key, but the client requires one.
+    const client = new OpenAI({
+      baseURL: visionBaseUrl,
+      apiKey: visionApiKey || "local",
+    });
+    return createOpenAIVisionProvider(client, visionModel || "llava");
+  }
+  if (apiKey) {
+    return createOpenAIVisionProvider(
+      new OpenAI({ apiKey }),
+      visionModel || "gpt-4o-mini"
+    );
+  }
+  return createMockVisionProvider();
+};
+
+const modelList = (value: string | undefined, fallback: string[]) => {
+  const names = (value ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return names.length ? names : fallback;
+};
+
+/**
+ * OpenAI first when keyed, then the local server; the mock is always
+ * available so offline demos keep working.
+ */
+const createProviders = ({
+  apiKey,
+  mock,
+  openaiModels,
+  localBaseUrl,
+  localApiKey,
+  localModels,
+}: ListingApiOptions): ProviderRegistry => {
+  const providers: ProviderRegistry = {};
+  if (!mock && apiKey) {
+    providers.openai = createOpenAIProvider(
+      new OpenAI({ apiKey }),
+      modelList(openaiModels, ["gpt-4o-mini", "gpt-4o"])
+    );
+  }
+  if (!mock && localBaseUrl) {
+    providers.local = createOpenAIProvider(
+      // Local servers ignore the key, but the client requires one.
+      new OpenAI({ baseURL: localBaseUrl, apiKey: localApiKey || "local" }),
+      modelList(localModels, ["llama3.1"])
+    );
+  }
+  providers.mock = createMockProvider();
+  return providers;
+};
+
+/**
+ * Serves /api/models, /api/generate(/stream), /api/rewrite, /api/translate and
+ * /api/photos/analyze from the Vite dev and preview servers so the OpenAI
+ * key never reaches the browser bundle.
+ */
+export const listingApiPlugin = (options: ListingApiOptions): Plugin => {
+  const { apiKey, mock, localBaseUrl } = options;
+  if (!mock && !apiKey && !localBaseUrl) {
+    console.warn("[listing-api] OPENAI_API_KEY is not set, using mock backend.");
+  }
+  const api = createListingApi(
+    createProviders(options),
+    createVisionProvider(options)
+  );
+
+  return {
+    name: "listing-api",
+    configureServer(server) {
+      server.middlewares.use(api);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(api);
+    },
+  };
+};
@@ -0,0 +1,149 @@
+import type OpenAI from "openai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { EMPTY_FORM, type ListingFormState } from "../src/lib/listing";
+import {
+  UnknownModelError,
+  createMockProvider,
+  createOpenAIProvider,
+  listModels,
+  resolveModel,
+} from "./backend";
+
+const FORM: ListingFormState = {
+  ...EMPTY_FORM,
+  address: "12 Harbor Ln, Newport, RI",
+  highlights: "Harbor views",
+  channels: ["heading", "mls"],
+};
+
+const reply = (content: string) => ({
+  choices: [{ message: { content } }],
+});
+
+/** Just enough of the OpenAI client for non-streaming completions. */
+const fakeOpenAI = (create: (body: unknown) => Promise<unknown>) =>
+  ({ chat: { completions: { create } } }) as unknown as OpenAI;
+
+describe("createOpenAIProvider", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns validated copy from the requested model", async () => {
+    const create = vi.fn(async () =>
+      reply(JSON.stringify({ heading: "Harbor home", mls: "Near the water." }))
+    );
+    const provider = createOpenAIProvider(fakeOpenAI(create), [
+      "gpt-4o-mini",
+      "gpt-4o",
+    ]);
+
+    await expect(
+      provider.generate(FORM, { model: "gpt-4o" })
+    ).resolves.toEqual({ heading: "Harbor home", mls: "Near the water." });
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "gpt-4o" }),
+      expect.anything()
+    );
+  });
+
+  it("uses the first model by default", async () => {
+    const create = vi.fn(async () => reply('{"mls":"Short."}'));
+    const provider = createOpenAIProvider(fakeOpenAI(create), ["llama3.1"]);
+    await provider.rewrite({ field: "mls", instruction: "x", text: "y" });
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "llama3.1" }),
+      expect.anything()
+    );
+  });
+
+  it("repairs an incomplete reply", async () => {
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce(reply('{"heading":"Harbor home"}'))
+      .mockResolvedValueOnce(
+        reply('{"heading":"Harbor home","mls":"Near the water."}')
+      );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const provider = createOpenAIProvider(fakeOpenAI(create), ["gpt-4o-mini"]);
+
+    await expect(provider.generate(FORM)).resolves.toMatchObject({
+      mls: "Near the water.",
+    });
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after repeated invalid replies", async () => {
+    const create = vi.fn(async () => reply("not json"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const provider = createOpenAIProvider(fakeOpenAI(create), ["gpt-4o-mini"]);
+
+    await expect(provider.generate(FORM)).rejects.toThrow(
+      /after 3 attempts \(response was not valid JSON\)/
+    );
+  });
+
+  it("passes API errors through with their status", async () => {
+    const error = Object.assign(new Error("Rate limit reached"), {
+      status: 429,
+    });
+    const provider = createOpenAIProvider(
+      fakeOpenAI(() => Promise.reject(error)),
+      ["gpt-4o-mini"]
+    );
+    await expect(provider.generate(FORM)).rejects.toMatchObject({
+      status: 429,
+    });
+  });
+
+  it("rejects a rewrite without the field", async () => {
+    const provider = createOpenAIProvider(
+      fakeOpenAI(async () => reply('{"heading":"Wrong field"}')),
+      ["gpt-4o-mini"]
+    );
+    await expect(
+      provider.rewrite({ field: "mls", instruction: "x", text: "y" })
+    ).rejects.toThrow("Model did not return rewritten field.");
+  });
+});
+
+describe("model router", () => {
+  const providers = {
+    openai: createOpenAIProvider(fakeOpenAI(vi.fn()), [
+      "gpt-4o-mini",
+      "gpt-4o",
+    ]),
+    mock: createMockProvider(),
+  };
+
+  it("lists models in provider order", () => {
+    expect(listModels(providers).map((m) => m.id)).toEqual([
+      "openai:gpt-4o-mini",
+      "openai:gpt-4o",
+      "mock:fixture",
+    ]);
+  });
+
+  it("resolves ids and falls back to the first model", () => {
+    expect(resolveModel(providers, "mock:fixture")).toMatchObject({
+      provider: providers.mock,
+      model: "fixture",
+    });
+    expect(resolveModel(providers).id).toBe("openai:gpt-4o-mini");
+  });
+
+  it("rejects models the server doesn't run", () => {
+    expect(() => resolveModel(providers, "local:llama3.1")).toThrow(
+      UnknownModelError
+    );
+  });
+
+  it("streams the fixture copy deterministically", async () => {
+    const deltas: string[] = [];
+    const outputs = await createMockProvider().stream(FORM, {
+      onDelta: (text) => deltas.push(text),
+    });
+    expect(JSON.parse(deltas.join(""))).toEqual(outputs);
+    expect(Object.keys(outputs)).toEqual(["heading", "mls"]);
+  });
+});
@@ -0,0 +1,416 @@
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { AMENITY_LABELS } from "../src/lib/amenities";
+import {
+  channelFor,
+  enabledChannelKeys,
+  type ChannelKey,
+} from "../src/lib/channels";
+import {
+  describeIssues,
+  outputsSchemaFor,
+  statusLabel,
+  type ListingFormState,
+  type ListingOutputs,
+  type RewriteRequest,
+  type TranslateRequest,
+} from "../src/lib/listing";
+import {
+  LLM_PROVIDERS,
+  modelId,
+  type ModelOption,
+  type ProviderId,
+} from "../src/lib/models";
+import {
+  FeatureSuggestionsSchema,
+  PHOTO_ANALYSIS_SYSTEM,
+  buildPhotoAnalysisPrompt,
+  mergeSuggestions,
+  type VisionProvider,
+} from "../src/lib/photos";
+import {
+  TRANSLATE_SYSTEM,
+  buildGeneratePrompt,
+  buildRepairPrompt,
+  buildRewritePrompt,
+  buildTranslatePrompt,
+} from "../src/lib/prompt";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  type PromptTemplate,
+} from "../src/lib/promptTemplate";
+import { formFieldText, formatPropertyType } from "../src/lib/propertyFields";
+
+// -----------------------------
+// PROVIDER CONTRACT
+// -----------------------------
+export type CallOptions = {
+  /** A name from the provider's `models`; the first one otherwise. */
+  model?: string;
+  signal?: AbortSignal;
+};
+
+export type GenerateOptions = CallOptions & {
+  /** Prompt template version to render; defaults to the built-in one. */
+  template?: PromptTemplate;
+};
+
+export type StreamOptions = GenerateOptions & {
+  /** Receives raw JSON text as the model produces it. */
+  onDelta: (text: string) => void;
+  /** Called before a repair attempt; streamed text so far should be discarded. */
+  onRetry?: (issues: string) => void;
+};
+
+/** One LLM backend: OpenAI, a local OpenAI-compatible server or the mock. */
+export interface LlmProvider {
+  /** Model names it can run; the first is the default. */
+  readonly models: readonly string[];
+  generate(
+    form: ListingFormState,
+    options?: GenerateOptions
+  ): Promise<ListingOutputs>;
+  /** Like generate, but reports the raw reply as it arrives. */
+  stream(form: ListingFormState, options: StreamOptions): Promise<ListingOutputs>;
+  rewrite(request: RewriteRequest, options?: CallOptions): Promise<string>;
+  /** Localizes existing copy into another language instead of regenerating. */
+  translate(
+    request: TranslateRequest,
+    options?: CallOptions
+  ): Promise<ListingOutputs>;
+}
+
+// -----------------------------
+// OPENAI-COMPATIBLE PROVIDER
+// -----------------------------
+/** Total attempts per generation, including repair prompts. */
+const GENERATE_MAX_ATTEMPTS = 3;
+
+/**
+ * Talks to OpenAI, or to any server speaking its chat completions API (such
+ * as Ollama or llama.cpp) when the client has a `baseURL`.
+ */
+export const createOpenAIProvider = (
+  openai: OpenAI,
+  models: readonly string[]
+): LlmProvider => {
+  const pick = (model?: string) => model ?? models[0];
+
+  const complete = async (
+    messages: ChatCompletionMessageParam[],
+    { model, signal }: CallOptions = {}
+  ) => {
+    const completion = await openai.chat.completions.create(
+      {
+        model: pick(model),
+        response_format: { type: "json_object" },
+        messages,
+      },
+      { signal }
+    );
+    return completion.choices[0].message.content || "{}";
+  };
+
+  const completeStreaming = async (
+    messages: ChatCompletionMessageParam[],
+    onDelta: (text: string) => void,
+    { model, signal }: CallOptions = {}
+  ) => {
+    const stream = await openai.chat.completions.create(
+      {
+        model: pick(model),
+        response_format: { type: "json_object" },
+        messages,
+        stream: true,
+      },
+      { signal }
+    );
+    let content = "";
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (!delta) continue;
+      content += delta;
+      onDelta(delta);
+    }
+    return content || "{}";
+  };
+
+  /** Completes until the reply parses as full listing copy, repairing as needed. */
+  const completeOutputs = async (
+    messages: ChatCompletionMessageParam[],
+    keys: readonly ChannelKey[],
+    options: CallOptions & Partial<Omit<StreamOptions, keyof GenerateOptions>>
+  ) => {
+    const { onDelta, onRetry } = options;
+    const schema = outputsSchemaFor(keys);
+    let issues = "";
+
+    for (let attempt = 1; attempt <= GENERATE_MAX_ATTEMPTS; attempt++) {
+      const content = onDelta
+        ? await completeStreaming(messages, onDelta, options)
+        : await complete(messages, options);
+
+      let json: unknown;
+      try {
+        json = JSON.parse(content);
+      } catch {
+        json = undefined;
+      }
+
+      const parsed = schema.safeParse(json);
+      if (parsed.success) return parsed.data;
+
+      issues =
+        json === undefined
+          ? "response was not valid JSON"
+          : describeIssues(parsed.error);
+      console.warn(`[listing-api] attempt ${attempt} invalid: ${issues}`);
+      if (attempt < GENERATE_MAX_ATTEMPTS) onRetry?.(issues);
+
+      messages.push(
+        { role: "assistant", content },
+        { role: "user", content: buildRepairPrompt(issues, keys) }
+      );
+    }
+
+    throw new Error(
+      `Model returned incomplete listing copy after ${GENERATE_MAX_ATTEMPTS} attempts (${issues}).`
+    );
+  };
+
+  const generateMessages = (
+    form: ListingFormState,
+    template = DEFAULT_PROMPT_TEMPLATE
+  ): ChatCompletionMessageParam[] => [
+    { role: "system", content: template.generateSystem },
+    { role: "user", content: buildGeneratePrompt(form, template) },
+  ];
+
+  return {
+    models,
+
+    generate(form, options = {}) {
+      return completeOutputs(
+        generateMessages(form, options.template),
+        enabledChannelKeys(form.channels),
+        options
+      );
+    },
+
+    stream(form, options) {
+      return completeOutputs(
+        generateMessages(form, options.template),
+        enabledChannelKeys(form.channels),
+        options
+      );
+    },
+
+    async rewrite(request, options) {
+      const json = JSON.parse(
+        await complete(
+          [
+            {
+              role: "system",
+              content: request.system ?? DEFAULT_PROMPT_TEMPLATE.rewriteSystem,
+            },
+            { role: "user", content: buildRewritePrompt(request) },
+          ],
+          options
+        )
+      );
+      const newFieldText = json[request.field];
+      if (typeof newFieldText !== "string" || !newFieldText.trim()) {
+        throw new Error("Model did not return rewritten field.");
+      }
+      return newFieldText;
+    },
+
+    translate(request, options = {}) {
+      return completeOutputs(
+        [
+          { role: "system", content: TRANSLATE_SYSTEM },
+          { role: "user", content: buildTranslatePrompt(request) },
+        ],
+        Object.keys(request.outputs) as ChannelKey[],
+        options
+      );
+    },
+  };
+};
+
+// -----------------------------
+// VISION
+// -----------------------------
+/**
+ * Photo features from OpenAI or any OpenAI-compatible server running a
+ * vision model, such as llava on a local Ollama.
+ */
+export const createOpenAIVisionProvider = (
+  openai: OpenAI,
+  model: string
+): VisionProvider => ({
+  async suggestFeatures(photos, signal) {
+    const completion = await openai.chat.completions.create(
+      {
+        model,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: PHOTO_ANALYSIS_SYSTEM },
+          {
+            role: "user",
+            content: [
+              { type: "text", text: buildPhotoAnalysisPrompt(photos.length) },
+              ...photos.map((photo) => ({
+                type: "image_url" as const,
+                image_url: { url: photo.dataUrl, detail: "low" as const },
+              })),
+            ],
+          },
+        ],
+      },
+      { signal }
+    );
+
+    let json: unknown;
+    try {
+      json = JSON.parse(completion.choices[0].message.content || "{}");
+    } catch {
+      json = undefined;
+    }
+    const parsed = FeatureSuggestionsSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new Error("Model returned no usable photo features.");
+    }
+    // Indexes past the last photo are model noise.
+    return mergeSuggestions(
+      parsed.data.features.map((f) => ({
+        ...f,
+        photos: f.photos.filter((i) => i < photos.length),
+      }))
+    );
+  },
+});
+
+// -----------------------------
+// FIXTURE PROVIDER (offline / tests)
+// -----------------------------
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("Aborted"));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new Error("Aborted"));
+    });
+  });
+
+const mockOutputs = (form: ListingFormState): ListingOutputs => {
+  const beds = formFieldText(form, "beds");
+  const baths = formFieldText(form, "baths");
+  const area = formFieldText(form, "livingArea");
+  const facts = [beds && `${beds} beds`, baths && `${baths} baths`, area]
+    .filter(Boolean)
+    .join(", ");
+  const place = form.neighborhood || form.address || "a great location";
+  const type = formatPropertyType(form);
+  const features =
+    form.highlights.trim() ||
+    (form.amenities ?? []).map((a) => AMENITY_LABELS[a]).join(", ");
+  const summary = `${type} in ${place}${
+    facts ? ` with ${facts}` : ""
+  }. ${features}`;
+  const headline = `Stunning ${type} in ${place}`;
+
+  const known: ListingOutputs = {
+    heading:
+      form.status === "active"
+        ? headline
+        : `${statusLabel(form.status, form.listingType)}: ${headline}`,
+    mls: summary,
+    zillow: `Welcome home to this ${summary}`,
+    social: `Just listed: ${summary} #justlisted #realestate #newlisting #dreamhome #luxuryhomes`,
+    email: `I wanted to share a new listing with you: ${summary}`,
+    tiktok: `Wait until you see this ${type}!\n- ${beds || "?"} beds\n- ${
+      baths || "?"
+    } baths\n- ${area || "? sq ft"}\n- ${place}\nBook your tour today!`,
+    printAd: summary.slice(0, 200),
+  };
+
+  return Object.fromEntries(
+    enabledChannelKeys(form.channels).map((key) => [
+      key,
+      known[key] ??
+        `${channelFor(key, form.listingType).label}: ${summary}`,
+    ])
+  );
+};
+
+/** Deterministic copy built from the form; needs no network or key. */
+export const createMockProvider = (): LlmProvider => ({
+  models: ["fixture"],
+
+  async generate(form) {
+    return mockOutputs(form);
+  },
+
+  async stream(form, { onDelta, signal }) {
+    const outputs = mockOutputs(form);
+    const json = JSON.stringify(outputs);
+    for (let i = 0; i < json.length; i += 24) {
+      await delay(15, signal);
+      onDelta(json.slice(i, i + 24));
+    }
+    return outputs;
+  },
+
+  async rewrite({ instruction, text }) {
+    return `${text} [rewritten: ${instruction}]`;
+  },
+
+  async translate({ outputs, to }) {
+    return Object.fromEntries(
+      Object.entries(outputs).map(([field, text]) => [
+        field,
+        `[${to}] ${text}`,
+      ])
+    ) as ListingOutputs;
+  },
+});
+
+// -----------------------------
+// MODEL ROUTER
+// -----------------------------
+export type ProviderRegistry = Partial<Record<ProviderId, LlmProvider>>;
+
+/** Every model the registry can run, in provider order. */
+export const listModels = (providers: ProviderRegistry): ModelOption[] =>
+  LLM_PROVIDERS.flatMap((provider) =>
+    (providers[provider]?.models ?? []).map((name) => ({
+      id: modelId(provider, name),
+      provider,
+      name,
+    }))
+  );
+
+/** Thrown for a model id the server isn't configured to run. */
+export class UnknownModelError extends Error {
+  constructor(id: string) {
+    super(`Model "${id}" is not available on this server.`);
+    this.name = "UnknownModelError";
+  }
+}
+
+/**
+ * Resolves "provider:model" to the provider that runs it; no id means the
+ * first configured model.
+ */
+export const resolveModel = (providers: ProviderRegistry, id?: string) => {
+  const models = listModels(providers);
+  const option = id ? models.find((m) => m.id === id) : models[0];
+  if (!option) throw new UnknownModelError(id ?? "default");
+  return {
+    provider: providers[option.provider]!,
+    model: option.name,
+    id: option.id,
+  };
+};
@@ -1,150 +1,295 @@
-import React, { useEffect, useState } from "react";
-import OpenAI from "openai";
-import { z } from "zod";
+import React, { useEffect, useRef, useState } from "react";
+import AmenityPicker from "./components/AmenityPicker";
+import BatchPanel from "./components/BatchPanel";
+import ChannelChecks from "./components/ChannelChecks";
+import CompletenessMeter from "./components/CompletenessMeter";
+import CustomRewrite from "./components/CustomRewrite";
+import ExportBar from "./components/ExportBar";
+import FairHousingDictionary from "./components/FairHousingDictionary";
+import FairHousingFlags from "./components/FairHousingFlags";
+import HistoryFilterBar from "./components/HistoryFilterBar";
+import HistoryTransfer from "./components/HistoryTransfer";
+import InvestorFields from "./components/InvestorFields";
+import InvestorSheet from "./components/InvestorSheet";
+import LanguageTabs from "./components/LanguageTabs";
+import PhotoSuggestions from "./components/PhotoSuggestions";
+import PresetManager from "./components/PresetManager";
+import PromptTemplateEditor from "./components/PromptTemplateEditor";
+import PropertyHistory from "./components/PropertyHistory";
+import PropertyFields from "./components/PropertyFields";
+import PropertyImport from "./components/PropertyImport";
+import RentalFields from "./components/RentalFields";
+import RevisionPanel from "./components/RevisionPanel";
+import { useListingGeneration } from "./hooks/useListingGeneration";
+import { useSectionRewrite } from "./hooks/useSectionRewrite";
+import { useStoredState } from "./hooks/useStoredState";
+import { errorMessage, fetchModels } from "./lib/api";
+import { buildFixInstruction, checkChannel } from "./lib/channelRules";
+import {
+  enabledChannelKeys,
+  listingChannels,
+  outputChannels,
+  type ChannelKey,
+} from "./lib/channels";
+import { listingCompleteness } from "./lib/completeness";
+import {
+  DEFAULT_FAIR_HOUSING_RULES,
+  FAIR_HOUSING_KEY,
+  applyFairHousingSuggestion,
+  scanFairHousing,
+  type FairHousingFlag,
+  type FairHousingRule,
+} from "./lib/fairHousing";
+import { formatDate } from "./lib/format";
+import { analyzeInvestment, withInvestorFigures } from "./lib/investor";
+import {
+  EMPTY_FORM,
+  LANGUAGES,
+  LANGUAGE_LABELS,
+  LISTING_STATUSES,
+  LISTING_TYPES,
+  LISTING_TYPE_LABELS,
+  fieldErrors,
+  statusLabel,
+  type Language,
+  type ListingFormState,
+  type ListingOutputs,
+  type ListingStatus,
+  type ListingType,
+} from "./lib/listing";
+import {
+  addHistoryItem,
+  itemLanguages,
+  itemLocale,
+  removeHistoryItem,
+  stepItemField,
+  toggleHistoryFavorite,
+  withOutputField,
+  type HistoryItem,
+} from "./lib/history";
+import {
+  EMPTY_FILTERS,
+  filterHistory,
+  propertyTypes,
+} from "./lib/historySearch";
+import { loadHistory, syncHistory } from "./lib/historyStore";
+import {
+  applyHistoryChange,
+  mergeHistoryChange,
+  publishHistoryChange,
+  subscribeHistoryChanges,
+  takesIncoming,
+} from "./lib/historySync";
+import {
+  MODEL_KEY,
+  modelLabel,
+  type ModelId,
+  type ModelOption,
+} from "./lib/models";
+import type { RewritePreset } from "./lib/presets";
+import { groupProperties } from "./lib/properties";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  PROMPT_TEMPLATES_KEY,
+  findTemplate,
+  type StoredPromptTemplates,
+} from "./lib/promptTemplate";
+import {
+  canRedo,
+  canUndo,
+  currentRevision,
+  moveRevision,
+} from "./lib/revisions";
 
 // -----------------------------
-// OPENAI CLIENT
+// DEFAULTS & STORAGE KEYS
 // -----------------------------
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true,
-});
-
-// -----------------------------
-// TYPES & VALIDATION
-// -----------------------------
-const ListingSchema = z.object({
-  propertyType: z.string().min(1),
-  address: z.string().optional(),
-  price: z.string().optional(),
-  beds: z.string().optional(),
-  baths: z.string().optional(),
-  sqft: z.string().optional(),
-  lotSize: z.string().optional(),
-  yearBuilt: z.string().optional(),
-  parking: z.string().optional(),
-  neighborhood: z.string().optional(),
-  highlights: z.string().min(3),
-  tone: z.enum(["standard", "luxury", "investor", "casual", "hype", "simple"]),
-  length: z.enum(["short", "medium", "long"]),
-  language: z.enum(["en", "es"]),
-});
-
-type ListingFormState = z.infer<typeof ListingSchema>;
-
-type ListingOutputs = {
-  heading: string;
-  mls: string;
-  zillow: string;
-  social: string;
-  email: string;
-  tiktok: string;
-};
-
-type HistoryItem = {
-  id: string;
-  createdAt: string;
-  form: ListingFormState;
-  outputs: ListingOutputs;
-  favorite: boolean;
-};
-
-const toneMap: Record<ListingFormState["tone"], string> = {
-  standard: "professional, neutral real estate tone",
-  luxury: "high-end, premium, aspirational luxury tone",
-  investor: "ROI-focused, cash-flow oriented, investor analysis style",
-  casual: "friendly, approachable, conversational tone",
-  hype: "energetic, modern, attention-grabbing tone",
-  simple: "easy-to-read, clear, simple tone",
-};
-
-const lengthMap: Record<ListingFormState["length"], string> = {
-  short: "40–70 words",
-  medium: "120–180 words",
-  long: "220–300 words",
-};
-
-const HISTORY_KEY = "luxlist-history-v1";
-const HISTORY_LIMIT = 50;
-
-// -----------------------------
-// HELPERS
-// -----------------------------
-const formatDate = (iso: string) =>
-  new Date(iso).toLocaleString(undefined, {
-    month: "short",
-    day: "numeric",
-    hour: "2-digit",
-    minute: "2-digit",
-  });
-
-const formatPrice = (value?: string) => {
-  if (!value) return "No price";
-  const cleaned = value.replace(/[^0-9.]/g, "");
-  const num = Number(cleaned);
-  if (Number.isNaN(num)) return value;
-  return num.toLocaleString("en-US", {
-    style: "currency",
-    currency: "USD",
-    maximumFractionDigits: 0,
-  });
-};
+const PRESETS_KEY = "luxlist-presets-v1";
+const UNDO_DELETE_MS = 8000;
 
 // -----------------------------
 // MAIN APP
 // -----------------------------
 export default function App() {
-  const [loading, setLoading] = useState(false);
-  const [rewriteLoadingKey, setRewriteLoadingKey] = useState<string | null>(
-    null
-  );
   const [output, setOutput] = useState<ListingOutputs | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
-
-  const [form, setForm] = useState<ListingFormState>({
-    propertyType: "",
-    address: "",
-    price: "",
-    beds: "",
-    baths: "",
-    sqft: "",
-    lotSize: "",
-    yearBuilt: "",
-    parking: "",
-    neighborhood: "",
-    highlights: "",
-    tone: "luxury",
-    length: "medium",
-    language: "en",
-  });
+  const [revisionField, setRevisionField] = useState<
+    ChannelKey | null
+  >(null);
+
+  const [form, setForm] = useState<ListingFormState>(EMPTY_FORM);
+  // Errors show per field once left; a generate attempt reveals them all.
+  const [showFieldErrors, setShowFieldErrors] = useState(false);
+  /** Extra languages generated alongside `form.language`. */
+  const [targetLanguages, setTargetLanguages] = useState<Language[]>([]);
+  const [activeLanguage, setActiveLanguage] = useState<Language>(
+    EMPTY_FORM.language
+  );
 
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [historyFilters, setHistoryFilters] = useState(EMPTY_FILTERS);
+  const [deletedItem, setDeletedItem] = useState<HistoryItem | null>(null);
   const [selectedHistoryId, setSelectedHistoryId] = useState<string | null>(
     null
   );
+  const [presets, setPresets] = useStoredState<RewritePreset[]>(
+    PRESETS_KEY,
+    []
+  );
+  const [fairHousingRules, setFairHousingRules] = useStoredState<
+    FairHousingRule[]
+  >(FAIR_HOUSING_KEY, DEFAULT_FAIR_HOUSING_RULES);
+  /** Saved prompt template versions after the built-in default. */
+  const [storedTemplates, setStoredTemplates] =
+    useStoredState<StoredPromptTemplates>(PROMPT_TEMPLATES_KEY, {
+      active: DEFAULT_PROMPT_TEMPLATE.version,
+      versions: [],
+    });
+  /** What the server can run; empty until /api/models answers. */
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [model, setModel] = useState<ModelId | undefined>(undefined);
 
   // -----------------------------
-  // HISTORY: load/save localStorage
+  // HISTORY: load/save IndexedDB
   // -----------------------------
+  /** Last list written to the store; null until the first load settles. */
+  const persistedHistory = useRef<HistoryItem[] | null>(null);
+
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(HISTORY_KEY);
-      if (!raw) return;
-      const parsed: HistoryItem[] = JSON.parse(raw);
-      setHistory(parsed);
-    } catch {
-      // ignore
-    }
+    loadHistory()
+      .then((items) => {
+        persistedHistory.current = items;
+        // Keep anything generated while the store was still opening.
+        setHistory((prev) => {
+          const ids = new Set(prev.map((h) => h.id));
+          return [...prev, ...items.filter((h) => !ids.has(h.id))];
+        });
+      })
+      .catch((e) => {
+        console.error(e);
+        persistedHistory.current = [];
+        setError("Could not load history: " + errorMessage(e));
+      });
+  }, []);
+
+  useEffect(() => {
+    const prev = persistedHistory.current;
+    if (!prev) return;
+    persistedHistory.current = history;
+    syncHistory(prev, history)
+      .then((change) => change && publishHistoryChange(change))
+      .catch((e) => {
+        console.error(e);
+        setError("Could not save history: " + errorMessage(e));
+      });
+  }, [history]);
+
+  // Another tab already stored these, so they're marked as persisted too.
+  // Where this tab's copy is newer it stays on screen, and the save effect
+  // writes it back over the stored one.
+  useEffect(
+    () =>
+      subscribeHistoryChanges((change) => {
+        if (persistedHistory.current) {
+          persistedHistory.current = applyHistoryChange(
+            persistedHistory.current,
+            change
+          );
+        }
+        setHistory((prev) => mergeHistoryChange(prev, change));
+
+        const selected = change.put.find((h) => h.id === selectedHistoryId);
+        const current = history.find((h) => h.id === selectedHistoryId);
+        if (selected && takesIncoming(current, selected)) {
+          setOutput(itemLocale(selected, activeLanguage).outputs);
+        }
+      }),
+    [history, selectedHistoryId, activeLanguage]
+  );
+
+  // Undo is offered for a few seconds after each delete.
+  useEffect(() => {
+    if (!deletedItem) return;
+    const timer = setTimeout(() => setDeletedItem(null), UNDO_DELETE_MS);
+    return () => clearTimeout(timer);
+  }, [deletedItem]);
+
+  // -----------------------------
+  // MODELS: server list + saved choice
+  // -----------------------------
+  useEffect(() => {
+    fetchModels()
+      .then((res) => {
+        setModels(res.models);
+        // A saved model the server no longer offers falls back to its default.
+        const saved = localStorage.getItem(MODEL_KEY);
+        const found = res.models.find((m) => m.id === saved);
+        setModel(found ? found.id : res.default);
+      })
+      .catch((e) => console.error(e));
   }, []);
 
   useEffect(() => {
     try {
-      localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+      if (model) localStorage.setItem(MODEL_KEY, model);
     } catch {
       // ignore
     }
-  }, [history]);
+  }, [model]);
+
+  const templateVersions = [
+    DEFAULT_PROMPT_TEMPLATE,
+    ...storedTemplates.versions,
+  ];
+  const activeTemplate = findTemplate(templateVersions, storedTemplates.active);
+  const formErrors = fieldErrors(form);
+
+  const {
+    loading,
+    sectionStatus,
+    stoppedForm,
+    pendingLanguages,
+    generate,
+    stop: stopGeneration,
+    keepPartial,
+    discardPartial,
+    translate,
+    addToHistory,
+  } = useListingGeneration({
+    setOutput,
+    setHistory,
+    onSelect: (id, language) => {
+      setSelectedHistoryId(id);
+      setActiveLanguage(language);
+    },
+    onError: setError,
+    onInvalid: () => setShowFieldErrors(true),
+    template: activeTemplate,
+    model,
+  });
+
+  const { rewriteLoadingKey, isRewriting, rewriteSection, updateOutputField } =
+    useSectionRewrite({
+      output,
+      setOutput,
+      setHistory,
+      selectedHistoryId,
+      language: activeLanguage,
+      template: activeTemplate,
+      model,
+      generating: loading,
+      onError: setError,
+    });
+
+  /** Investor tone has no rental equivalent, so it falls back to standard. */
+  const changeListingType = (listingType: ListingType) =>
+    setForm((p) => ({
+      ...p,
+      listingType,
+      tone:
+        listingType === "rental" && p.tone === "investor" ? "standard" : p.tone,
+    }));
 
   const change = (
     e:
@@ -160,54 +305,80 @@ export default function App() {
   // -----------------------------
   // HISTORY HELPERS
   // -----------------------------
-  const addToHistory = (formData: ListingFormState, outputs: ListingOutputs) => {
-    const id =
-      (crypto?.randomUUID?.() ?? Date.now().toString()) +
-      "-" +
-      Math.random().toString(16).slice(2);
-
-    const item: HistoryItem = {
-      id,
-      createdAt: new Date().toISOString(),
-      form: formData,
-      outputs,
-      favorite: false,
-    };
-
-    setHistory((prev) => {
-      const updated = [item, ...prev];
-      if (updated.length > HISTORY_LIMIT) {
-        return updated.slice(0, HISTORY_LIMIT);
-      }
-      return updated;
-    });
-    setSelectedHistoryId(id);
-  };
-
-  const toggleFavorite = (id: string) => {
-    setHistory((prev) =>
-      prev.map((h) => (h.id === id ? { ...h, favorite: !h.favorite } : h))
-    );
-  };
+  const toggleFavorite = (id: string) =>
+    setHistory((prev) => toggleHistoryFavorite(prev, id));
 
   const loadFromHistory = (item: HistoryItem) => {
     setForm(item.form);
-    setOutput(item.outputs);
+    setOutput(itemLocale(item).outputs);
+    setActiveLanguage(item.form.language);
     setSelectedHistoryId(item.id);
   };
 
+  /** Starts a new generation for the same home with the new status. */
+  const startStatusChange = (item: HistoryItem, status: ListingStatus) => {
+    loadFromHistory(item);
+    setForm({ ...item.form, status });
+  };
+
+  const showLanguage = (language: Language) => {
+    if (!selectedItem) return;
+    setActiveLanguage(language);
+    setOutput(itemLocale(selectedItem, language).outputs);
+    setRevisionField(null);
+  };
+
+  const toggleTargetLanguage = (language: Language) =>
+    setTargetLanguages((prev) =>
+      prev.includes(language)
+        ? prev.filter((l) => l !== language)
+        : [...prev, language]
+    );
+
+  const toggleChannel = (key: ChannelKey) =>
+    setForm((p) => {
+      const keys = enabledChannelKeys(p.channels);
+      return {
+        ...p,
+        channels: keys.includes(key)
+          ? keys.filter((k) => k !== key)
+          : [...keys, key],
+      };
+    });
+
   const deleteFromHistory = (id: string) => {
-    setHistory((prev) => prev.filter((h) => h.id !== id));
+    setDeletedItem(history.find((h) => h.id === id) ?? null);
+    setHistory((prev) => removeHistoryItem(prev, id));
     if (selectedHistoryId === id) {
       setSelectedHistoryId(null);
       setOutput(null);
     }
   };
 
+  const undoDelete = () => {
+    if (!deletedItem) return;
+    const item = deletedItem;
+    setHistory((prev) => addHistoryItem(prev, item));
+    setDeletedItem(null);
+  };
+
   // -----------------------------
   // COPY HELPERS
   // -----------------------------
+  /** Warns before copy text with Fair Housing flags leaves the app. */
+  const confirmFairHousing = (texts: string[], action: string) => {
+    const flags = texts.flatMap((t) => scanFairHousing(t, fairHousingRules));
+    if (flags.length === 0) return true;
+    return window.confirm(
+      `This text has ${flags.length} Fair Housing flag(s): ${flags
+        .map((f) => `"${f.match}"`)
+        .join(", ")}. ${action} anyway?`
+    );
+  };
+
   const copyToClipboard = async (key: string, text: string) => {
+    if (!confirmFairHousing([text], "Copy")) return;
+
     try {
       await navigator.clipboard.writeText(text);
       setCopiedKey(key);
@@ -218,195 +389,154 @@ export default function App() {
     }
   };
 
-  // -----------------------------
-  // GENERATE LISTING
-  // -----------------------------
-  const generate = async () => {
-    setLoading(true);
-    setOutput(null);
-    setError(null);
-
-    const parsed = ListingSchema.safeParse(form);
-    if (!parsed.success) {
-      setError("❌ Fill required fields correctly (Property Type & Highlights).");
-      setLoading(false);
-      return;
-    }
-
-    const data = parsed.data;
-    const lang = data.language === "es" ? "Spanish" : "English";
-
-    const details = `
-Property Type: ${data.propertyType}
-Address: ${data.address || "N/A"}
-Price: ${data.price || "N/A"}
-Beds: ${data.beds || "N/A"}
-Baths: ${data.baths || "N/A"}
-SqFt: ${data.sqft || "N/A"}
-Lot Size: ${data.lotSize || "N/A"}
-Year Built: ${data.yearBuilt || "N/A"}
-Parking: ${data.parking || "N/A"}
-Neighborhood: ${data.neighborhood || "N/A"}
-Highlights: ${data.highlights}
-`.trim();
-
-    const prompt = `
-You are a senior real estate listing copywriter with 20+ years experience.
-You ONLY write text descriptions (NOT links, NOT MLS numbers, NOT emails).
-You ALWAYS follow Fair Housing laws.
-
-Write FIVE versions of listing copy for the following property, using the details provided.
-
-Return your response as JSON with ONLY these keys:
-"heading", "mls", "zillow", "social", "email", "tiktok".
-
-### THE PURPOSE OF EACH FIELD:
-
-heading:
-- A short luxury-style headline (4–8 words)
-- No emojis
-
-mls:
-- Professional MLS-style paragraph
-- 120–160 words
-- Full property description
-- Include layout, features, materials, upgrades, PARKING, LOT SIZE, and YEAR BUILT where provided
-- NO links, NO MLS numbers, NO contact info
-
-zillow:
-- Friendly, lifestyle-focused description
-- 100–140 words
-- More emotional, less formal
-- Include some lifestyle context (near parks, schools, shopping) when provided
-- NO links
-
-social:
-- Instagram-style caption
-- 1–3 sentences
-- Add 5–8 luxury real estate hashtags
-- MAX 2 emojis
-- NO links
-
-email:
-- Professional summary paragraph
-- 60–100 words
-- Written as if an agent is describing the home via email
-- NO email addresses
-
-tiktok:
-- Hook + 4–6 bullet points + call-to-action
-- MAX 2 emojis total
-- NO TikTok links
-- NO user handles
-- Short, punchy, and high-energy
-
-### PROPERTY DETAILS:
-${details}
-`.trim();
-
-    try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        response_format: { type: "json_object" },
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a top-tier real estate listing copywriter. You ALWAYS follow Fair Housing rules and never reference protected classes.",
-          },
-          { role: "user", content: prompt },
-        ],
-      });
-
-      const json = JSON.parse(
-        completion.choices[0].message.content || "{}"
-      ) as ListingOutputs;
-
-      setOutput(json);
-      addToHistory(data, json);
-    } catch (e: any) {
-      console.error(e);
-      setError("OpenAI Error: " + e.message);
-    }
-
-    setLoading(false);
+  /** Localizes the version on screen rather than regenerating from the form. */
+  const translateTo = (language: Language) => {
+    if (!selectedItem || !output) return;
+    translate(selectedItem.id, output, activeLanguage, language);
   };
 
   // -----------------------------
   // REWRITE SECTION
   // -----------------------------
-  const rewriteSection = async (
-    field: keyof ListingOutputs,
-    instruction: string
-  ) => {
-    if (!output) return;
-    const current = output[field];
-    if (!current) return;
+  const stepRevision = (field: ChannelKey, step: -1 | 1) => {
+    if (!selectedItem) return;
+    const stack = itemLocale(selectedItem, activeLanguage).revisions[field];
+    if (!stack) return;
+    const text = currentRevision(moveRevision(stack, step)).text;
 
-    setRewriteLoadingKey(`${field}:${instruction}`);
-    setError(null);
+    setOutput((prev) => prev && withOutputField(prev, field, text));
+    setHistory((prev) =>
+      stepItemField(prev, selectedItem.id, activeLanguage, field, step)
+    );
+  };
 
-    const prompt = `
-You are a senior real estate copywriter.
-Rewrite the existing ${field} text below according to the instruction.
+  // Typing only touches `output`; the revision is recorded on blur.
+  const editOutputField = (field: ChannelKey, text: string) =>
+    setOutput((prev) => prev && withOutputField(prev, field, text));
 
-Instruction: ${instruction}
+  const commitManualEdit = (field: ChannelKey) => {
+    const text = output?.[field];
+    if (text === undefined) return;
+    updateOutputField(field, text, { kind: "manual" });
+  };
 
-Return JSON with ONLY this key: "${field}".
+  const isBusy = loading || !!rewriteLoadingKey;
+  const selectedItem = history.find((h) => h.id === selectedHistoryId);
+
+  const renderStatus = (field: ChannelKey) => {
+    const status = sectionStatus?.[field];
+    if (!status) return null;
+    return (
+      <span className="ml-2 text-[10px] font-normal normal-case text-[#A0A0A0]">
+        {status === "pending"
+          ? "waiting…"
+          : status === "streaming"
+          ? "writing…"
+          : "✓ done"}
+      </span>
+    );
+  };
 
-Existing text:
-"""${current}"""
-`.trim();
+  const renderCustomRewrite = (field: ChannelKey) => {
+    if (!output || sectionStatus) return null;
+    return (
+      <CustomRewrite
+        presets={presets.filter((p) => p.fields.includes(field))}
+        onRewrite={(instruction) => rewriteSection(field, instruction)}
+        disabled={isRewriting(field) || loading}
+      />
+    );
+  };
 
-    try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        response_format: { type: "json_object" },
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an expert at rewriting real estate marketing copy while preserving key details and Fair Housing compliance.",
-          },
-          { role: "user", content: prompt },
-        ],
-      });
+  const renderRevisions = (field: ChannelKey) => {
+    const revisions =
+      selectedItem && itemLocale(selectedItem, activeLanguage).revisions[field];
+    if (!revisions || sectionStatus) return null;
+    const buttonClass =
+      "text-[10px] px-1.5 py-0.5 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-40";
+
+    return (
+      <>
+        <div className="flex items-center gap-1 mb-1">
+          <button
+            type="button"
+            onClick={() => stepRevision(field, -1)}
+            disabled={!canUndo(revisions) || isBusy}
+            className={buttonClass}
+            title="Undo"
+          >
+            ↶ Undo
+          </button>
+          <button
+            type="button"
+            onClick={() => stepRevision(field, 1)}
+            disabled={!canRedo(revisions) || isBusy}
+            className={buttonClass}
+            title="Redo"
+          >
+            ↷ Redo
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              setRevisionField((f) => (f === field ? null : field))
+            }
+            disabled={revisions.entries.length < 2}
+            className={buttonClass}
+          >
+            Compare ({revisions.entries.length})
+          </button>
+        </div>
+        {revisionField === field && (
+          <RevisionPanel
+            key={`${selectedItem?.id}:${revisions.entries.length}`}
+            revisions={revisions}
+            formatDate={formatDate}
+          />
+        )}
+      </>
+    );
+  };
 
-      const json = JSON.parse(completion.choices[0].message.content || "{}");
-      const newFieldText = json[field];
-
-      if (!newFieldText) {
-        throw new Error("Model did not return rewritten field.");
-      }
-
-      setOutput((prev) =>
-        prev ? { ...prev, [field]: newFieldText } : prev
-      );
-
-      if (selectedHistoryId) {
-        setHistory((prev) =>
-          prev.map((h) =>
-            h.id === selectedHistoryId
-              ? {
-                  ...h,
-                  outputs: {
-                    ...h.outputs,
-                    [field]: newFieldText,
-                  },
-                }
-              : h
-          )
-        );
-      }
-    } catch (e: any) {
-      console.error(e);
-      setError("Rewrite error: " + e.message);
-    }
+  const renderChecks = (field: ChannelKey) => {
+    if (!output || sectionStatus) return null;
+    const shown = selectedItem?.form ?? form;
+    const results = checkChannel(
+      field,
+      output[field] ?? "",
+      shown.length,
+      activeLanguage,
+      shown.listingType
+    );
+    return (
+      <ChannelChecks
+        results={results}
+        onFix={() => rewriteSection(field, buildFixInstruction(results))}
+        disabled={isRewriting(field) || loading}
+      />
+    );
+  };
 
-    setRewriteLoadingKey(null);
+  const renderFairHousing = (field: ChannelKey) => {
+    const text = output?.[field];
+    if (text === undefined || sectionStatus) return null;
+    return (
+      <FairHousingFlags
+        text={text}
+        flags={scanFairHousing(text, fairHousingRules)}
+        onApply={(flag: FairHousingFlag) =>
+          updateOutputField(
+            field,
+            applyFairHousingSuggestion(text, flag),
+            { kind: "manual" }
+          )
+        }
+      />
+    );
   };
 
-  const isBusy = loading || !!rewriteLoadingKey;
+  const visibleHistory = filterHistory(history, historyFilters);
+  const highlightFlags = scanFairHousing(form.highlights, fairHousingRules);
 
   // -----------------------------
   // UI
@@ -422,46 +552,115 @@ Existing text:
           </p>
 
           <div className="space-y-4">
-            {[
-              "propertyType",
-              "address",
-              "price",
-              "beds",
-              "baths",
-              "sqft",
-              "lotSize",
-              "yearBuilt",
-              "parking",
-              "neighborhood",
-            ].map((f) => (
-              <div key={f}>
-                <label className="text-xs uppercase text-[#A0A0A0]">
-                  {f.replace(/([A-Z])/g, " $1")}
-                </label>
-                <input
-                  name={f}
-                  value={(form as any)[f]}
-                  onChange={change}
-                  className="w-full bg-[#070707] border border-[#2A2A2A] rounded-lg px-3 py-2 mt-1 text-sm focus:border-[#F4C96B] outline-none"
-                />
-              </div>
-            ))}
+            <PropertyImport
+              form={form}
+              onApply={(patch) => setForm((p) => ({ ...p, ...patch }))}
+            />
+
+            <div className="flex gap-1">
+              {LISTING_TYPES.map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => changeListingType(type)}
+                  className={`flex-1 text-xs px-2 py-1.5 rounded-lg border ${
+                    form.listingType === type
+                      ? "border-[#F4C96B] text-[#F4C96B]"
+                      : "border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
+                  }`}
+                >
+                  {LISTING_TYPE_LABELS[type]}
+                </button>
+              ))}
+            </div>
+
+            <PropertyFields
+              form={form}
+              onChange={(patch) => setForm((p) => ({ ...p, ...patch }))}
+              errors={formErrors}
+              showAllErrors={showFieldErrors}
+            />
+
+            {form.listingType === "rental" && (
+              <RentalFields
+                form={form}
+                onChange={(patch) => setForm((p) => ({ ...p, ...patch }))}
+                errors={showFieldErrors ? formErrors : {}}
+                fairHousingRules={fairHousingRules}
+              />
+            )}
+
+            {form.listingType === "sale" && (
+              <InvestorFields
+                form={form}
+                onChange={(patch) => setForm((p) => ({ ...p, ...patch }))}
+                errors={formErrors}
+              />
+            )}
+
+            <AmenityPicker
+              amenities={form.amenities ?? []}
+              renovations={form.renovations ?? []}
+              onChange={(patch) => setForm((p) => ({ ...p, ...patch }))}
+              error={showFieldErrors ? formErrors.renovations : undefined}
+            />
+
+            <PhotoSuggestions
+              highlights={form.highlights}
+              onChange={(highlights) => setForm((p) => ({ ...p, highlights }))}
+            />
 
             <div>
               <label className="text-xs uppercase text-[#A0A0A0]">
-                Highlights *
+                Highlights
               </label>
               <textarea
                 name="highlights"
                 value={form.highlights}
                 onChange={change}
                 rows={4}
+                placeholder="Anything the checklist misses: materials, upgrades, the story of the home"
                 className="w-full bg-[#070707] border border-[#2A2A2A] rounded-lg px-3 py-2 mt-1 text-sm focus:border-[#F4C96B] outline-none"
               />
+              {showFieldErrors && formErrors.highlights && (
+                <p className="text-red-400 text-[11px] mt-1">
+                  {formErrors.highlights}
+                </p>
+              )}
+              <FairHousingFlags
+                text={form.highlights}
+                flags={highlightFlags}
+                onApply={(flag) =>
+                  setForm((p) => ({
+                    ...p,
+                    highlights: applyFairHousingSuggestion(p.highlights, flag),
+                  }))
+                }
+              />
             </div>
 
+            <CompletenessMeter completeness={listingCompleteness(form)} />
+
             {/* DROPDOWNS */}
-            <div className="grid grid-cols-3 gap-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs uppercase text-[#A0A0A0]">
+                  Status
+                </label>
+                <select
+                  name="status"
+                  value={form.status}
+                  onChange={change}
+                  className="w-full bg-[#070707] border border-[#2A2A2A] p-2 mt-1 rounded-lg text-sm focus:border-[#F4C96B] outline-none"
+                >
+                  {LISTING_STATUSES.map((s) => (
+                    <option key={s} value={s}>
+                      {statusLabel(s, form.listingType)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="text-xs uppercase text-[#A0A0A0]">Tone</label>
                 <select
@@ -472,7 +671,10 @@ Existing text:
                 >
                   <option value="luxury">Luxury</option>
                   <option value="standard">Standard</option>
-                  <option value="investor">Investor</option>
+                  {/* Tenants aren't investors; rentals hide the option. */}
+                  {form.listingType === "sale" && (
+                    <option value="investor">Investor</option>
+                  )}
                   <option value="casual">Casual</option>
                   <option value="hype">Hype</option>
                   <option value="simple">Simple</option>
@@ -505,20 +707,136 @@ Existing text:
                   onChange={change}
                   className="w-full bg-[#070707] border border-[#2A2A2A] p-2 mt-1 rounded-lg text-sm focus:border-[#F4C96B] outline-none"
                 >
-                  <option value="en">English</option>
-                  <option value="es">Spanish</option>
+                  {LANGUAGES.map((l) => (
+                    <option key={l} value={l}>
+                      {LANGUAGE_LABELS[l]}
+                    </option>
+                  ))}
                 </select>
               </div>
+
+              {models.length > 0 && (
+                <div className="col-span-2">
+                  <label className="text-xs uppercase text-[#A0A0A0]">
+                    Model
+                  </label>
+                  <select
+                    value={model}
+                    onChange={(e) => setModel(e.target.value as ModelId)}
+                    className="w-full bg-[#070707] border border-[#2A2A2A] p-2 mt-1 rounded-lg text-sm focus:border-[#F4C96B] outline-none"
+                  >
+                    {models.map((m) => (
+                      <option key={m.id} value={m.id}>
+                        {modelLabel(m.id)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
-            <button
-              type="button"
-              onClick={generate}
-              disabled={isBusy}
-              className="w-full bg-[#F4C96B] text-black font-semibold py-2.5 rounded-lg mt-2 text-sm hover:bg-[#FFE19B] transition shadow-lg shadow-amber-400/10 disabled:opacity-60 disabled:cursor-not-allowed"
-            >
-              {loading ? "Generating..." : "Generate Listing"}
-            </button>
+            <div>
+              <label className="text-xs uppercase text-[#A0A0A0]">
+                Also generate in
+              </label>
+              <div className="flex gap-1 flex-wrap mt-1">
+                {LANGUAGES.filter((l) => l !== form.language).map((l) => (
+                  <button
+                    key={l}
+                    type="button"
+                    onClick={() => toggleTargetLanguage(l)}
+                    className={`text-[11px] px-2 py-1 rounded border ${
+                      targetLanguages.includes(l)
+                        ? "border-[#F4C96B] text-[#F4C96B]"
+                        : "border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
+                    }`}
+                  >
+                    {LANGUAGE_LABELS[l]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="text-xs uppercase text-[#A0A0A0]">
+                Channels
+              </label>
+              <div className="flex gap-1 flex-wrap mt-1">
+                {listingChannels(form.listingType).map((c) => (
+                  <button
+                    key={c.key}
+                    type="button"
+                    onClick={() => toggleChannel(c.key)}
+                    disabled={c.required}
+                    title={c.required ? "Always generated" : undefined}
+                    className={`text-[11px] px-2 py-1 rounded border disabled:opacity-60 ${
+                      enabledChannelKeys(form.channels).includes(c.key)
+                        ? "border-[#F4C96B] text-[#F4C96B]"
+                        : "border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
+                    }`}
+                  >
+                    {c.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <FairHousingDictionary
+              rules={fairHousingRules}
+              onChange={setFairHousingRules}
+            />
+
+            <PresetManager presets={presets} onChange={setPresets} />
+
+            <PromptTemplateEditor
+              versions={templateVersions}
+              active={activeTemplate.version}
+              onActivate={(active) =>
+                setStoredTemplates((prev) => ({ ...prev, active }))
+              }
+              onSave={(template) =>
+                setStoredTemplates((prev) => ({
+                  active: template.version,
+                  versions: [...prev.versions, template],
+                }))
+              }
+            />
+
+            <BatchPanel
+              defaults={{
+                tone: form.tone,
+                length: form.length,
+                language: form.language,
+                channels: form.channels,
+              }}
+              template={activeTemplate}
+              model={model}
+              onResult={(formData, outputs) =>
+                addToHistory(formData, outputs, { select: false })
+              }
+            />
+
+            <HistoryTransfer history={history} onImport={setHistory} />
+
+            <div className="flex gap-2 mt-2">
+              <button
+                type="button"
+                onClick={() => generate(form, targetLanguages)}
+                disabled={isBusy}
+                className="flex-1 bg-[#F4C96B] text-black font-semibold py-2.5 rounded-lg text-sm hover:bg-[#FFE19B] transition shadow-lg shadow-amber-400/10 disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {loading ? "Generating..." : "Generate Listing"}
+              </button>
+              {loading && (
+                <button
+                  type="button"
+                  onClick={stopGeneration}
+                  className="px-4 py-2.5 rounded-lg text-sm border border-[#2A2A2A] hover:border-red-400 text-[#A0A0A0] hover:text-red-300"
+                >
+                  Stop
+                </button>
+              )}
+            </div>
 
             {error && <p className="text-red-400 text-sm mt-1">{error}</p>}
           </div>
@@ -531,64 +849,48 @@ Existing text:
               Output & History
             </h2>
             <span className="text-xs text-[#A0A0A0]">
-              Recent listings: {history.length}
+              Properties: {groupProperties(history).length} • Listings:{" "}
+              {history.length}
             </span>
           </div>
 
-          {/* History list */}
-          <div className="max-h-40 overflow-auto border border-[#1F1F1F] rounded-xl bg-[#070707]/60 mb-2">
-            {history.length === 0 ? (
-              <p className="text-xs text-[#A0A0A0] px-3 py-2">
-                No history yet. Generate a listing to save it here.
-              </p>
-            ) : (
-              <ul className="divide-y divide-[#1F1F1F]">
-                {history.map((item) => (
-                  <li
-                    key={item.id}
-                    className={`px-3 py-2 text-xs flex items-center gap-2 cursor-pointer hover:bg-white/5 ${
-                      selectedHistoryId === item.id ? "bg-white/10" : ""
-                    }`}
-                    onClick={() => loadFromHistory(item)}
-                  >
-                    <button
-                      type="button"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        toggleFavorite(item.id);
-                      }}
-                      className="text-[#F4C96B] hover:text-[#FFE19B]"
-                      title={item.favorite ? "Unstar" : "Star"}
-                    >
-                      {item.favorite ? "★" : "☆"}
-                    </button>
-                    <div className="flex-1 min-w-0">
-                      <div className="font-medium truncate">
-                        {item.outputs.heading || "Untitled listing"}
-                      </div>
-                      <div className="text-[10px] text-[#A0A0A0] truncate">
-                        {item.form.address || "No address"} •{" "}
-                        {item.form.price
-                          ? formatPrice(item.form.price)
-                          : "No price"}{" "}
-                        • {formatDate(item.createdAt)}
-                      </div>
-                    </div>
-                    <button
-                      type="button"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        deleteFromHistory(item.id);
-                      }}
-                      className="text-[#A0A0A0] hover:text-red-400 text-xs"
-                    >
-                      ✕
-                    </button>
-                  </li>
-                ))}
-              </ul>
-            )}
-          </div>
+          <HistoryFilterBar
+            filters={historyFilters}
+            onChange={setHistoryFilters}
+            propertyTypes={propertyTypes(history)}
+            shown={visibleHistory.length}
+            total={history.length}
+          />
+
+          {deletedItem && (
+            <div className="flex items-center gap-2 border border-[#2A2A2A] rounded-lg px-3 py-2 text-xs text-[#A0A0A0]">
+              <span className="flex-1 truncate">
+                Deleted “
+                {itemLocale(deletedItem).outputs.heading || "Untitled listing"}
+                ”.
+              </span>
+              <button
+                type="button"
+                onClick={undoDelete}
+                className="px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B]"
+              >
+                Undo
+              </button>
+            </div>
+          )}
+
+          {/* History, grouped by property */}
+          <PropertyHistory
+            history={visibleHistory}
+            emptyText={
+              history.length > 0 ? "No listings match these filters." : undefined
+            }
+            selectedId={selectedHistoryId}
+            onSelect={loadFromHistory}
+            onToggleFavorite={toggleFavorite}
+            onDelete={deleteFromHistory}
+            onStatusChange={startStatusChange}
+          />
 
           {/* Output */}
           <div className="flex-1 overflow-auto space-y-4 text-sm">
@@ -600,310 +902,126 @@ Existing text:
               </p>
             )}
 
-            {output && (
-              <>
-                {/* Heading */}
-                <div>
-                  <div className="flex items-center justify-between mb-1">
-                    <h3 className="text-[#F4C96B] font-semibold uppercase">
-                      Heading
-                    </h3>
-                    <button
-                      type="button"
-                      onClick={() =>
-                        copyToClipboard("heading", output.heading)
-                      }
-                      className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
-                    >
-                      {copiedKey === "heading" ? "Copied ✓" : "Copy"}
-                    </button>
-                  </div>
-                  <textarea
-                    readOnly
-                    value={output.heading}
-                    className="w-full h-16 bg-[#070707] border border-[#2A2A2A] rounded-lg p-3 text-xs"
-                  />
-                </div>
-
-                {/* MLS */}
-                <div>
-                  <div className="flex items-center justify-between mb-1 gap-2">
-                    <h3 className="text-[#F4C96B] font-semibold uppercase">
-                      MLS
-                    </h3>
-                    <div className="flex items-center gap-1 flex-wrap justify-end">
-                      <button
-                        type="button"
-                        onClick={() => copyToClipboard("mls", output.mls)}
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
-                      >
-                        {copiedKey === "mls" ? "Copied ✓" : "Copy"}
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          rewriteSection(
-                            "mls",
-                            "Make this shorter while keeping key details."
-                          )
-                        }
-                        disabled={rewriteLoadingKey?.startsWith("mls:") || loading}
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
-                      >
-                        Shorter
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          rewriteSection(
-                            "mls",
-                            "Make this slightly longer and more descriptive."
-                          )
-                        }
-                        disabled={rewriteLoadingKey?.startsWith("mls:") || loading}
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
-                      >
-                        Longer
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          rewriteSection(
-                            "mls",
-                            "Make this feel more luxury and high-end without adding fluff."
-                          )
-                        }
-                        disabled={rewriteLoadingKey?.startsWith("mls:") || loading}
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
-                      >
-                        More Luxury
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          rewriteSection(
-                            "mls",
-                            "Make the tone slightly more casual and conversational."
-                          )
-                        }
-                        disabled={rewriteLoadingKey?.startsWith("mls:") || loading}
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
-                      >
-                        More Casual
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          rewriteSection(
-                            "mls",
-                            "Make this more appealing to investors while staying compliant."
-                          )
-                        }
-                        disabled={rewriteLoadingKey?.startsWith("mls:") || loading}
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
-                      >
-                        Investor
-                      </button>
-                    </div>
-                  </div>
-                  {rewriteLoadingKey?.startsWith("mls:") && (
-                    <p className="text-[11px] text-[#A0A0A0] mb-1">
-                      Rewriting MLS…
-                    </p>
-                  )}
-                  <textarea
-                    readOnly
-                    value={output.mls}
-                    className="w-full h-28 bg-[#070707] border border-[#2A2A2A] rounded-lg p-3 text-xs"
-                  />
-                </div>
+            {stoppedForm && (
+              <div className="flex items-center gap-2 border border-[#2A2A2A] rounded-lg px-3 py-2 text-xs text-[#A0A0A0]">
+                <span className="flex-1">
+                  Generation stopped. Keep the partial result?
+                </span>
+                <button
+                  type="button"
+                  onClick={() => keepPartial(output)}
+                  className="px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B]"
+                >
+                  Save to history
+                </button>
+                <button
+                  type="button"
+                  onClick={discardPartial}
+                  className="px-2 py-1 rounded border border-[#2A2A2A] hover:border-red-400"
+                >
+                  Discard
+                </button>
+              </div>
+            )}
 
-                {/* Zillow */}
-                <div>
-                  <div className="flex items-center justify-between mb-1 gap-2">
-                    <h3 className="text-[#F4C96B] font-semibold uppercase">
-                      Zillow / Portal
-                    </h3>
-                  <div className="flex gap-1 flex-wrap justify-end">
-                      <button
-                        type="button"
-                        onClick={() =>
-                          copyToClipboard("zillow", output.zillow)
-                        }
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
-                      >
-                        {copiedKey === "zillow" ? "Copied ✓" : "Copy"}
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          rewriteSection(
-                            "zillow",
-                            "Make this slightly more lifestyle-focused and emotional."
-                          )
-                        }
-                        disabled={rewriteLoadingKey?.startsWith("zillow:") || loading}
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
-                      >
-                        More Lifestyle
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          rewriteSection(
-                            "zillow",
-                            "Tighten this up and make it a bit shorter."
-                          )
-                        }
-                        disabled={rewriteLoadingKey?.startsWith("zillow:") || loading}
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
-                      >
-                        Shorter
-                      </button>
-                    </div>
-                  </div>
-                  {rewriteLoadingKey?.startsWith("zillow:") && (
-                    <p className="text-[11px] text-[#A0A0A0] mb-1">
-                      Rewriting Zillow description…
-                    </p>
-                  )}
-                  <textarea
-                    readOnly
-                    value={output.zillow}
-                    className="w-full h-28 bg-[#070707] border border-[#2A2A2A] rounded-lg p-3 text-xs"
-                  />
-                </div>
+            {selectedItem && output && !sectionStatus && (
+              <LanguageTabs
+                languages={itemLanguages(selectedItem)}
+                active={activeLanguage}
+                pending={pendingLanguages}
+                onSelect={showLanguage}
+                onTranslate={translateTo}
+                disabled={isBusy}
+              />
+            )}
 
-                {/* Social */}
-                <div>
-                  <div className="flex items-center justify-between mb-1 gap-2">
-                    <h3 className="text-[#F4C96B] font-semibold uppercase">
-                      Social Caption
-                    </h3>
-                    <div className="flex gap-1 flex-wrap justify-end">
-                      <button
-                        type="button"
-                        onClick={() =>
-                          copyToClipboard("social", output.social)
-                        }
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
-                      >
-                        {copiedKey === "social" ? "Copied ✓" : "Copy"}
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          rewriteSection(
-                            "social",
-                            "Punch this up with a stronger hook and more scroll-stopping language, but no extra emojis."
-                          )
-                        }
-                        disabled={rewriteLoadingKey?.startsWith("social:") || loading}
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
-                      >
-                        Stronger Hook
-                      </button>
-                    </div>
-                  </div>
-                  {rewriteLoadingKey?.startsWith("social:") && (
-                    <p className="text-[11px] text-[#A0A0A0] mb-1">
-                      Rewriting social caption…
-                    </p>
-                  )}
-                  <textarea
-                    readOnly
-                    value={output.social}
-                    className="w-full h-24 bg-[#070707] border border-[#2A2A2A] rounded-lg p-3 text-xs"
-                  />
-                </div>
+            {selectedItem && output && !sectionStatus && (
+              <ExportBar
+                item={selectedItem}
+                language={activeLanguage}
+                confirmExport={() =>
+                  confirmFairHousing(
+                    Object.values(output).filter((t) => t !== undefined),
+                    "Export"
+                  )
+                }
+                onError={setError}
+              />
+            )}
 
-                {/* Email */}
+            {selectedItem &&
+              output &&
+              !sectionStatus &&
+              analyzeInvestment(selectedItem.form) && (
                 <div>
-                  <div className="flex items-center justify-between mb-1 gap-2">
-                    <h3 className="text-[#F4C96B] font-semibold uppercase">
-                      Email Version
-                    </h3>
-                    <div className="flex gap-1 flex-wrap justify-end">
-                      <button
-                        type="button"
-                        onClick={() =>
-                          copyToClipboard("email", output.email)
-                        }
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
-                      >
-                        {copiedKey === "email" ? "Copied ✓" : "Copy"}
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          rewriteSection(
-                            "email",
-                            "Make this slightly more concise and direct while remaining professional."
-                          )
-                        }
-                        disabled={rewriteLoadingKey?.startsWith("email:") || loading}
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
-                      >
-                        Tighter
-                      </button>
-                    </div>
-                  </div>
-                  {rewriteLoadingKey?.startsWith("email:") && (
-                    <p className="text-[11px] text-[#A0A0A0] mb-1">
-                      Rewriting email text…
-                    </p>
-                  )}
-                  <textarea
-                    readOnly
-                    value={output.email}
-                    className="w-full h-24 bg-[#070707] border border-[#2A2A2A] rounded-lg p-3 text-xs"
-                  />
+                  <h3 className="text-[#F4C96B] font-semibold uppercase mb-1">
+                    Investor Sheet
+                  </h3>
+                  <InvestorSheet form={selectedItem.form} />
                 </div>
-
-                {/* TikTok */}
-                <div>
+              )}
+
+            {output &&
+              outputChannels(
+                output,
+                (selectedItem?.form ?? form).listingType
+              ).map(({ key, label, rewrites, rows }) => (
+                <div key={key}>
                   <div className="flex items-center justify-between mb-1 gap-2">
                     <h3 className="text-[#F4C96B] font-semibold uppercase">
-                      TikTok Script
+                      {label}
+                      {renderStatus(key)}
                     </h3>
                     <div className="flex gap-1 flex-wrap justify-end">
                       <button
                         type="button"
-                        onClick={() =>
-                          copyToClipboard("tiktok", output.tiktok)
-                        }
+                        onClick={() => copyToClipboard(key, output[key] ?? "")}
                         className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
                       >
-                        {copiedKey === "tiktok" ? "Copied ✓" : "Copy"}
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          rewriteSection(
-                            "tiktok",
-                            "Make this punchier and more hook-driven for a 20–30 second real estate TikTok."
-                          )
-                        }
-                        disabled={rewriteLoadingKey?.startsWith("tiktok:") || loading}
-                        className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
-                      >
-                        More Punch
+                        {copiedKey === key ? "Copied ✓" : "Copy"}
                       </button>
+                      {rewrites.map((r) => (
+                        <button
+                          key={r.label}
+                          type="button"
+                          onClick={() =>
+                            rewriteSection(
+                              key,
+                              r.citesInvestorFigures
+                                ? withInvestorFigures(
+                                    r.instruction,
+                                    selectedItem?.form ?? form
+                                  )
+                                : r.instruction
+                            )
+                          }
+                          disabled={isRewriting(key) || loading}
+                          className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
+                        >
+                          {r.label}
+                        </button>
+                      ))}
                     </div>
                   </div>
-                  {rewriteLoadingKey?.startsWith("tiktok:") && (
+                  {isRewriting(key) && (
                     <p className="text-[11px] text-[#A0A0A0] mb-1">
-                      Rewriting TikTok script…
+                      Rewriting {label}…
                     </p>
                   )}
+                  {renderCustomRewrite(key)}
+                  {renderRevisions(key)}
+                  {renderChecks(key)}
                   <textarea
-                    readOnly
-                    value={output.tiktok}
-                    className="w-full h-24 bg-[#070707] border border-[#2A2A2A] rounded-lg p-3 text-xs"
+                    value={output[key] ?? ""}
+                    onChange={(e) => editOutputField(key, e.target.value)}
+                    onBlur={() => commitManualEdit(key)}
+                    readOnly={!!sectionStatus}
+                    rows={rows}
+                    className="w-full bg-[#070707] border border-[#2A2A2A] rounded-lg p-3 text-xs focus:border-[#F4C96B] outline-none"
                   />
+                  {renderFairHousing(key)}
                 </div>
-              </>
-            )}
+              ))}
           </div>
         </section>
       </div>
@@ -0,0 +1,144 @@
+import {
+  AMENITY_CATEGORIES,
+  AMENITY_LABELS,
+  RENOVATION_AREAS,
+  type Amenity,
+} from "../lib/amenities";
+import type { ListingFormState } from "../lib/listing";
+
+type Renovation = NonNullable<ListingFormState["renovations"]>[number];
+
+type AmenityPickerProps = {
+  amenities: Amenity[];
+  renovations: Renovation[];
+  onChange: (
+    patch: Partial<Pick<ListingFormState, "amenities" | "renovations">>
+  ) => void;
+  error?: string;
+};
+
+const inputClass =
+  "bg-[#070707] border border-[#2A2A2A] rounded px-2 py-1 text-[11px] focus:border-[#F4C96B] outline-none";
+
+const chipClass = (on: boolean) =>
+  `text-[11px] px-2 py-1 rounded border ${
+    on
+      ? "border-[#F4C96B] text-[#F4C96B]"
+      : "border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
+  }`;
+
+/** Categorized feature checklist plus dated renovations. */
+export default function AmenityPicker({
+  amenities,
+  renovations,
+  onChange,
+  error,
+}: AmenityPickerProps) {
+  const toggle = (amenity: Amenity) =>
+    onChange({
+      amenities: amenities.includes(amenity)
+        ? amenities.filter((a) => a !== amenity)
+        : [...amenities, amenity],
+    });
+
+  const updateRenovation = (index: number, patch: Partial<Renovation>) =>
+    onChange({
+      renovations: renovations.map((r, i) =>
+        i === index ? { ...r, ...patch } : r
+      ),
+    });
+
+  return (
+    <details
+      open
+      className="border border-[#1F1F1F] rounded-xl bg-[#070707]/60 px-3 py-2"
+    >
+      <summary className="text-xs uppercase text-[#A0A0A0] cursor-pointer">
+        Features ({amenities.length + renovations.length})
+      </summary>
+
+      <div className="mt-2 space-y-3">
+        {AMENITY_CATEGORIES.map((category) => (
+          <div key={category.key}>
+            <p className="text-[10px] uppercase text-[#A0A0A0] mb-1">
+              {category.label}
+            </p>
+            <div className="flex gap-1 flex-wrap">
+              {(Object.keys(category.items) as Amenity[]).map((amenity) => (
+                <button
+                  key={amenity}
+                  type="button"
+                  onClick={() => toggle(amenity)}
+                  className={chipClass(amenities.includes(amenity))}
+                >
+                  {AMENITY_LABELS[amenity]}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div>
+          <p className="text-[10px] uppercase text-[#A0A0A0] mb-1">
+            Recent renovations
+          </p>
+          <div className="space-y-1">
+            {renovations.map((r, i) => (
+              <div key={i} className="flex gap-2 items-center">
+                <input
+                  value={r.area}
+                  list="renovation-areas"
+                  placeholder="What was renovated"
+                  onChange={(e) => updateRenovation(i, { area: e.target.value })}
+                  className={`${inputClass} flex-1`}
+                />
+                <input
+                  type="number"
+                  value={Number.isNaN(r.year) ? "" : r.year}
+                  placeholder="Year"
+                  onChange={(e) =>
+                    updateRenovation(i, { year: e.target.valueAsNumber })
+                  }
+                  className={`${inputClass} w-20`}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    onChange({
+                      renovations: renovations.filter((_, j) => j !== i),
+                    })
+                  }
+                  title="Remove"
+                  className="text-[11px] text-[#A0A0A0] hover:text-red-400"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() =>
+                onChange({
+                  renovations: [
+                    ...renovations,
+                    { area: "", year: new Date().getFullYear() },
+                  ],
+                })
+              }
+              className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
+            >
+              + Add renovation
+            </button>
+          </div>
+          <datalist id="renovation-areas">
+            {RENOVATION_AREAS.map((area) => (
+              <option key={area} value={area} />
+            ))}
+          </datalist>
+        </div>
+
+        {error && <p className="text-red-400 text-[11px]">{error}</p>}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,219 @@
+import { useRef, useState } from "react";
+import { generateListing } from "../lib/api";
+import {
+  BATCH_CONCURRENCY,
+  batchToCsv,
+  batchToJson,
+  parseBatchCsv,
+  runQueue,
+  withRateLimitRetry,
+  type BatchRow,
+  type BatchRowStatus,
+  type BatchSettings,
+} from "../lib/batch";
+import { downloadFile } from "../lib/download";
+import type { ListingFormState, ListingOutputs } from "../lib/listing";
+import type { ModelId } from "../lib/models";
+import type { PromptTemplate } from "../lib/promptTemplate";
+
+type BatchPanelProps = {
+  defaults: BatchSettings;
+  template: PromptTemplate;
+  model?: ModelId;
+  onResult: (form: ListingFormState, outputs: ListingOutputs) => void;
+};
+
+const STATUS_STYLES: Record<BatchRowStatus, string> = {
+  invalid: "text-red-400",
+  queued: "text-[#A0A0A0]",
+  running: "text-[#F4C96B]",
+  retrying: "text-amber-400",
+  done: "text-emerald-400",
+  failed: "text-red-400",
+  cancelled: "text-[#A0A0A0]",
+};
+
+const buttonClass =
+  "text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50";
+
+export default function BatchPanel({
+  defaults,
+  template,
+  model,
+  onResult,
+}: BatchPanelProps) {
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const patchRow = (row: number, patch: Partial<BatchRow>) =>
+    setRows((prev) =>
+      prev.map((r) => (r.row === row ? { ...r, ...patch } : r))
+    );
+
+  const loadFile = async (file: File) => {
+    setRows(parseBatchCsv(await file.text(), defaults));
+  };
+
+  const start = async () => {
+    const queue = rows.filter((r) => r.form && r.status !== "done");
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+
+    await runQueue(
+      queue,
+      async (item) => {
+        const form = item.form!;
+        patchRow(item.row, { status: "running", attempts: 1, error: undefined });
+        try {
+          const outputs = await withRateLimitRetry(
+            () =>
+              generateListing(form, {
+                signal: controller.signal,
+                template,
+                model,
+              }),
+            {
+              signal: controller.signal,
+              onRetry: (attempt) =>
+                patchRow(item.row, {
+                  status: "retrying",
+                  attempts: attempt + 1,
+                  error: "Rate limited, backing off…",
+                }),
+            }
+          );
+          patchRow(item.row, { status: "done", outputs, error: undefined });
+          onResult(form, outputs);
+        } catch (e) {
+          patchRow(
+            item.row,
+            controller.signal.aborted
+              ? { status: "cancelled", error: undefined }
+              : {
+                  status: "failed",
+                  error: e instanceof Error ? e.message : String(e),
+                }
+          );
+        }
+      },
+      { concurrency: BATCH_CONCURRENCY, signal: controller.signal }
+    );
+
+    // Rows the queue never reached keep their place for the next run.
+    abortRef.current = null;
+    setRunning(false);
+  };
+
+  const done = rows.filter((r) => r.status === "done").length;
+  const pending = rows.filter((r) => r.form && r.status !== "done").length;
+  const failed = rows.filter(
+    (r) => r.status === "failed" || r.status === "invalid"
+  );
+
+  return (
+    <details className="border border-[#1F1F1F] rounded-xl bg-[#070707]/60 px-3 py-2">
+      <summary className="text-xs uppercase text-[#A0A0A0] cursor-pointer">
+        Batch generate from CSV
+      </summary>
+
+      <div className="mt-2 space-y-2 text-[11px]">
+        <p className="text-[#A0A0A0]">
+          One property per row. Columns use the form field names or RESO names
+          (BedroomsTotal, LivingArea, …); optional tone/length/language columns
+          override the current settings.
+        </p>
+        <div className="flex gap-2 flex-wrap">
+          <label className={`${buttonClass} cursor-pointer`}>
+            Upload CSV
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              disabled={running}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) loadFile(file);
+              }}
+            />
+          </label>
+          {running ? (
+            <button
+              type="button"
+              onClick={() => abortRef.current?.abort()}
+              className={buttonClass}
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={start}
+              disabled={pending === 0}
+              className={buttonClass}
+            >
+              Generate {pending} listing{pending === 1 ? "" : "s"}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() =>
+              downloadFile("luxlist-batch.csv", batchToCsv(rows), "text/csv")
+            }
+            disabled={done === 0 || running}
+            className={buttonClass}
+          >
+            Download CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadFile("luxlist-batch.json", batchToJson(rows))}
+            disabled={done === 0 || running}
+            className={buttonClass}
+          >
+            Download JSON
+          </button>
+        </div>
+
+        {rows.length > 0 && (
+          <>
+            <p className="text-[#A0A0A0]">
+              {done}/{rows.length} done
+              {failed.length > 0 && ` · ${failed.length} failed`}
+            </p>
+            <ul className="max-h-48 overflow-auto divide-y divide-[#1F1F1F]">
+              {rows.map((r) => (
+                <li key={r.row} className="py-1 flex items-center gap-2">
+                  <span className="text-[#A0A0A0] w-6 text-right">
+                    {r.row}
+                  </span>
+                  <span className="flex-1 truncate">{r.label}</span>
+                  <span className={STATUS_STYLES[r.status]}>
+                    {r.status}
+                    {r.status === "retrying" && ` (try ${r.attempts})`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        {failed.length > 0 && (
+          <div className="border border-red-900/60 rounded p-2">
+            <p className="text-red-300 mb-1">Failed rows</p>
+            <ul className="space-y-1 max-h-32 overflow-auto">
+              {failed.map((r) => (
+                <li key={r.row} className="text-[#D0D0D0]">
+                  <span className="text-[#A0A0A0]">Row {r.row}:</span>{" "}
+                  {r.error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
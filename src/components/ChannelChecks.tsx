@@ -0,0 +1,43 @@
+import type { RuleResult } from "../lib/channelRules";
+
+type ChannelChecksProps = {
+  results: RuleResult[];
+  onFix: () => void;
+  disabled?: boolean;
+};
+
+export default function ChannelChecks({
+  results,
+  onFix,
+  disabled,
+}: ChannelChecksProps) {
+  const failed = results.filter((r) => !r.passed).length;
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap mb-1">
+      {results.map((r) => (
+        <span
+          key={r.id}
+          title={r.passed ? r.actual : `${r.actual} — ${r.fix}`}
+          className={`text-[10px] px-1.5 py-0.5 rounded border ${
+            r.passed
+              ? "border-emerald-700/60 text-emerald-400"
+              : "border-red-700/60 text-red-400"
+          }`}
+        >
+          {r.passed ? "✓" : "✕"} {r.label}
+        </span>
+      ))}
+      {failed > 0 && (
+        <button
+          type="button"
+          onClick={onFix}
+          disabled={disabled}
+          className="text-[10px] px-2 py-0.5 rounded border border-red-700/60 text-red-300 hover:border-red-400 disabled:opacity-50"
+        >
+          Fix {failed} violation{failed === 1 ? "" : "s"}
+        </button>
+      )}
+    </div>
+  );
+}
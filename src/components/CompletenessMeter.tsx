@@ -0,0 +1,36 @@
+import type { Completeness } from "../lib/completeness";
+
+type CompletenessMeterProps = {
+  completeness: Completeness;
+};
+
+/** How much the copy has to work with, plus the next details worth adding. */
+export default function CompletenessMeter({
+  completeness: { percent, hints },
+}: CompletenessMeterProps) {
+  const color =
+    percent >= 80
+      ? "bg-emerald-500"
+      : percent >= 50
+      ? "bg-[#F4C96B]"
+      : "bg-amber-600";
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[11px] text-[#A0A0A0]">
+        <span className="uppercase">Listing detail</span>
+        <span>{percent}%</span>
+      </div>
+      <div className="h-1.5 rounded bg-[#1F1F1F] overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${percent}%` }} />
+      </div>
+      {hints.length > 0 && (
+        <ul className="text-[11px] text-[#A0A0A0] list-disc pl-4">
+          {hints.slice(0, 3).map((hint) => (
+            <li key={hint}>{hint}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import CustomRewrite from "./CustomRewrite";
+
+const type = (text: string) => {
+  const input = screen.getByPlaceholderText("Custom rewrite instruction…");
+  fireEvent.change(input, { target: { value: text } });
+  fireEvent.keyDown(input, { key: "Enter" });
+};
+
+describe("CustomRewrite", () => {
+  afterEach(cleanup);
+
+  it("submits on Enter", () => {
+    const onRewrite = vi.fn();
+    render(<CustomRewrite presets={[]} onRewrite={onRewrite} />);
+    type("  Mention the dock  ");
+    expect(onRewrite).toHaveBeenCalledWith("Mention the dock");
+  });
+
+  it("ignores Enter while disabled", () => {
+    const onRewrite = vi.fn();
+    render(<CustomRewrite presets={[]} onRewrite={onRewrite} disabled />);
+    type("Mention the dock");
+    expect(onRewrite).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import type { RewritePreset } from "../lib/presets";
+
+type CustomRewriteProps = {
+  presets: RewritePreset[];
+  onRewrite: (instruction: string) => void;
+  disabled?: boolean;
+};
+
+/** Free-form rewrite box plus the team presets that apply to this field. */
+export default function CustomRewrite({
+  presets,
+  onRewrite,
+  disabled,
+}: CustomRewriteProps) {
+  const [instruction, setInstruction] = useState("");
+
+  const submit = () => {
+    const trimmed = instruction.trim();
+    // Enter still fires while a generation or rewrite is running.
+    if (!trimmed || disabled) return;
+    onRewrite(trimmed);
+    setInstruction("");
+  };
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap mb-1">
+      {presets.map((p) => (
+        <button
+          key={p.id}
+          type="button"
+          onClick={() => onRewrite(p.instruction)}
+          disabled={disabled}
+          title={p.instruction}
+          className="text-[10px] px-1.5 py-0.5 rounded border border-[#3A3320] hover:border-[#F4C96B] text-[#F4C96B]/80 disabled:opacity-50"
+        >
+          {p.name}
+        </button>
+      ))}
+      <input
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") submit();
+        }}
+        placeholder="Custom rewrite instruction…"
+        className="flex-1 min-w-[10rem] bg-[#070707] border border-[#2A2A2A] rounded px-2 py-0.5 text-[11px] focus:border-[#F4C96B] outline-none"
+      />
+      <button
+        type="button"
+        onClick={submit}
+        disabled={disabled || !instruction.trim()}
+        className="text-[10px] px-2 py-0.5 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
+      >
+        Rewrite
+      </button>
+    </div>
+  );
+}
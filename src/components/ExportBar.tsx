@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { downloadFile } from "../lib/download";
+import {
+  exportFileName,
+  flyerUnsupportedReason,
+  toDocx,
+  toFlyerPdf,
+  toHtml,
+  toMarkdown,
+} from "../lib/exporters";
+import type { HistoryItem } from "../lib/history";
+import { investorSheetCsv } from "../lib/investor";
+import type { Language } from "../lib/listing";
+
+type ExportBarProps = {
+  item: HistoryItem;
+  /** Which locale of the item to export. */
+  language: Language;
+  /** Return false to cancel, e.g. after a Fair Housing warning. */
+  confirmExport: () => boolean;
+  onError: (message: string) => void;
+};
+
+type ExportKind = "md" | "html" | "pdf" | "docx" | "investor";
+
+const EXPORTS: { kind: ExportKind; label: string }[] = [
+  { kind: "md", label: "Markdown" },
+  { kind: "html", label: "HTML" },
+  { kind: "pdf", label: "PDF flyer" },
+  { kind: "docx", label: "DOCX" },
+];
+
+export default function ExportBar({
+  item,
+  language,
+  confirmExport,
+  onError,
+}: ExportBarProps) {
+  const [busy, setBusy] = useState<ExportKind | null>(null);
+  const investorSheet = investorSheetCsv(item.form);
+  const exports = investorSheet
+    ? [...EXPORTS, { kind: "investor" as const, label: "Investor sheet" }]
+    : EXPORTS;
+  // Shown as the tooltip of the disabled PDF button.
+  const pdfUnsupported = flyerUnsupportedReason(item, language);
+
+  const run = async (kind: ExportKind) => {
+    // The sheet is figures only, so there's no copy to screen.
+    if (kind === "investor") {
+      downloadFile(
+        exportFileName(item, "investor.csv"),
+        investorSheet ?? "",
+        "text/csv"
+      );
+      return;
+    }
+    if (!confirmExport()) return;
+    setBusy(kind);
+    try {
+      const name = exportFileName(item, kind, language);
+      if (kind === "md") {
+        downloadFile(name, toMarkdown(item, language), "text/markdown");
+      } else if (kind === "html") {
+        downloadFile(name, toHtml(item, language), "text/html");
+      } else if (kind === "pdf") {
+        downloadFile(name, await toFlyerPdf(item, language), "application/pdf");
+      } else {
+        downloadFile(
+          name,
+          await toDocx(item, language),
+          "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+        );
+      }
+    } catch (e) {
+      console.error(e);
+      onError("Export failed: " + (e instanceof Error ? e.message : String(e)));
+    }
+    setBusy(null);
+  };
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap text-[11px]">
+      <span className="text-[#A0A0A0] mr-1">Export:</span>
+      {exports.map(({ kind, label }) => (
+        <button
+          key={kind}
+          type="button"
+          onClick={() => run(kind)}
+          disabled={!!busy || (kind === "pdf" && !!pdfUnsupported)}
+          title={kind === "pdf" ? pdfUnsupported : undefined}
+          className="px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
+        >
+          {busy === kind ? "Exporting…" : label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import {
+  DEFAULT_FAIR_HOUSING_RULES,
+  FAIR_HOUSING_CATEGORIES,
+  type FairHousingCategory,
+  type FairHousingRule,
+} from "../lib/fairHousing";
+import { LANGUAGES, LANGUAGE_LABELS } from "../lib/listing";
+
+type FairHousingDictionaryProps = {
+  rules: FairHousingRule[];
+  onChange: (rules: FairHousingRule[]) => void;
+};
+
+const inputClass =
+  "bg-[#070707] border border-[#2A2A2A] rounded px-2 py-1 text-xs focus:border-[#F4C96B] outline-none";
+
+export default function FairHousingDictionary({
+  rules,
+  onChange,
+}: FairHousingDictionaryProps) {
+  const [draft, setDraft] = useState({
+    phrase: "",
+    language: "en" as FairHousingRule["language"],
+    category: "familial status" as FairHousingCategory,
+    suggestion: "",
+  });
+
+  const add = () => {
+    const phrase = draft.phrase.trim();
+    if (!phrase) return;
+    const id = `${draft.language}:${phrase.toLowerCase()}`;
+    onChange([
+      ...rules.filter((r) => r.id !== id),
+      { ...draft, id, phrase, suggestion: draft.suggestion.trim() },
+    ]);
+    setDraft((d) => ({ ...d, phrase: "", suggestion: "" }));
+  };
+
+  return (
+    <details className="border border-[#1F1F1F] rounded-xl bg-[#070707]/60 px-3 py-2">
+      <summary className="text-xs uppercase text-[#A0A0A0] cursor-pointer">
+        Fair Housing dictionary ({rules.length} phrases)
+      </summary>
+
+      <div className="mt-2 grid grid-cols-2 gap-2">
+        <input
+          placeholder="Risky phrase"
+          value={draft.phrase}
+          onChange={(e) => setDraft({ ...draft, phrase: e.target.value })}
+          className={inputClass}
+        />
+        <input
+          placeholder="Suggested replacement (blank = remove)"
+          value={draft.suggestion}
+          onChange={(e) => setDraft({ ...draft, suggestion: e.target.value })}
+          className={inputClass}
+        />
+        <select
+          value={draft.category}
+          onChange={(e) =>
+            setDraft({
+              ...draft,
+              category: e.target.value as FairHousingCategory,
+            })
+          }
+          className={inputClass}
+        >
+          {FAIR_HOUSING_CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <select
+            value={draft.language}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                language: e.target.value as FairHousingRule["language"],
+              })
+            }
+            className={`${inputClass} flex-1`}
+          >
+            {LANGUAGES.map((l) => (
+              <option key={l} value={l}>
+                {LANGUAGE_LABELS[l]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={add}
+            className="text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      <ul className="mt-2 max-h-48 overflow-auto divide-y divide-[#1F1F1F]">
+        {rules.map((r) => (
+          <li key={r.id} className="py-1 flex items-center gap-2 text-[11px]">
+            <span className="text-[#A0A0A0] uppercase w-5">{r.language}</span>
+            <span className="flex-1 min-w-0 truncate">
+              {r.phrase}{" "}
+              <span className="text-[#A0A0A0]">
+                → {r.suggestion || "(remove)"}
+              </span>
+            </span>
+            <span className="text-[10px] text-[#A0A0A0]">{r.category}</span>
+            <button
+              type="button"
+              onClick={() => onChange(rules.filter((x) => x.id !== r.id))}
+              className="text-[#A0A0A0] hover:text-red-400"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <button
+        type="button"
+        onClick={() => onChange(DEFAULT_FAIR_HOUSING_RULES)}
+        className="mt-2 text-[11px] text-[#A0A0A0] hover:text-[#F4C96B]"
+      >
+        Reset to defaults
+      </button>
+    </details>
+  );
+}
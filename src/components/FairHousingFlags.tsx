@@ -0,0 +1,61 @@
+import type { ReactNode } from "react";
+import type { FairHousingFlag } from "../lib/fairHousing";
+
+type FairHousingFlagsProps = {
+  text: string;
+  flags: FairHousingFlag[];
+  onApply: (flag: FairHousingFlag) => void;
+};
+
+/** Shows the text with flagged spans highlighted, plus one-click fixes. */
+export default function FairHousingFlags({
+  text,
+  flags,
+  onApply,
+}: FairHousingFlagsProps) {
+  if (flags.length === 0) return null;
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  flags.forEach((f, i) => {
+    if (f.start > cursor) parts.push(text.slice(cursor, f.start));
+    parts.push(
+      <mark
+        key={i}
+        title={`${f.rule.category}: ${
+          f.rule.suggestion ? `try "${f.rule.suggestion}"` : "remove"
+        }`}
+        className="bg-red-500/30 text-red-200 rounded px-0.5"
+      >
+        {f.match}
+      </mark>
+    );
+    cursor = f.end;
+  });
+  parts.push(text.slice(cursor));
+
+  return (
+    <div className="mt-1 border border-red-900/60 bg-red-950/20 rounded-lg p-2 space-y-2">
+      <p className="text-[11px] text-red-300 font-semibold">
+        ⚠ Fair Housing: {flags.length} flagged phrase
+        {flags.length === 1 ? "" : "s"}
+      </p>
+      <p className="text-xs whitespace-pre-wrap text-[#D0D0D0]">{parts}</p>
+      <ul className="space-y-1">
+        {flags.map((f, i) => (
+          <li key={i} className="flex items-center gap-2 text-[11px]">
+            <span className="text-red-300">"{f.match}"</span>
+            <span className="text-[#A0A0A0]">({f.rule.category})</span>
+            <button
+              type="button"
+              onClick={() => onApply(f)}
+              className="ml-auto px-2 py-0.5 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
+            >
+              {f.rule.suggestion ? `→ "${f.rule.suggestion}"` : "Remove"}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
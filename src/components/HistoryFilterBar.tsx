@@ -0,0 +1,213 @@
+import {
+  EMPTY_FILTERS,
+  HISTORY_SORTS,
+  hasActiveFilters,
+  priceScope,
+  type HistoryFilters,
+  type HistorySort,
+} from "../lib/historySearch";
+import {
+  LANGUAGES,
+  LANGUAGE_LABELS,
+  LISTING_TYPES,
+  LISTING_TYPE_LABELS,
+  ListingSchema,
+  type Language,
+  type ListingFormState,
+  type ListingType,
+} from "../lib/listing";
+import {
+  CURRENCIES,
+  PROPERTY_TYPE_LABELS,
+  type Currency,
+  type PropertyType,
+} from "../lib/propertyFields";
+
+type HistoryFilterBarProps = {
+  filters: HistoryFilters;
+  onChange: (filters: HistoryFilters) => void;
+  /** Property types present in the history. */
+  propertyTypes: PropertyType[];
+  shown: number;
+  total: number;
+};
+
+const inputClass =
+  "bg-[#070707] border border-[#2A2A2A] rounded px-2 py-1 text-[11px] focus:border-[#F4C96B] outline-none";
+
+const TONES = ListingSchema.shape.tone.options;
+
+const capitalize = (text: string) => text[0].toUpperCase() + text.slice(1);
+
+/** Search box, sort order and the collapsible filter set for history. */
+export default function HistoryFilterBar({
+  filters,
+  onChange,
+  propertyTypes,
+  shown,
+  total,
+}: HistoryFilterBarProps) {
+  const set = <K extends keyof HistoryFilters>(
+    key: K,
+    value: HistoryFilters[K]
+  ) => onChange({ ...filters, [key]: value });
+  const active = hasActiveFilters(filters);
+  const scope = priceScope(filters);
+  const priceLabel = scope.listingType === "rental" ? "rent / mo" : "price";
+
+  return (
+    <div className="space-y-1 text-[11px]">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => set("query", e.target.value)}
+          placeholder="Search headings, addresses and copy…"
+          className={`${inputClass} flex-1`}
+        />
+        <select
+          value={filters.sort}
+          onChange={(e) => set("sort", e.target.value as HistorySort)}
+          className={inputClass}
+        >
+          {Object.entries(HISTORY_SORTS).map(([key, label]) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <details className="border border-[#1F1F1F] rounded-xl bg-[#070707]/60 px-3 py-2">
+        <summary className="text-xs uppercase text-[#A0A0A0] cursor-pointer">
+          Filters{active && ` (showing ${shown} of ${total})`}
+        </summary>
+
+        <div className="mt-2 grid grid-cols-2 gap-2 text-[#A0A0A0]">
+          <label className="col-span-2 flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={filters.favoritesOnly}
+              onChange={(e) => set("favoritesOnly", e.target.checked)}
+            />
+            Starred only
+          </label>
+
+          <select
+            value={filters.tone}
+            onChange={(e) =>
+              set("tone", e.target.value as ListingFormState["tone"] | "")
+            }
+            className={inputClass}
+          >
+            <option value="">Any tone</option>
+            {TONES.map((t) => (
+              <option key={t} value={t}>
+                {capitalize(t)}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={filters.language}
+            onChange={(e) => set("language", e.target.value as Language | "")}
+            className={inputClass}
+          >
+            <option value="">Any language</option>
+            {LANGUAGES.map((l) => (
+              <option key={l} value={l}>
+                {LANGUAGE_LABELS[l]}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={filters.propertyType}
+            onChange={(e) =>
+              set("propertyType", e.target.value as PropertyType | "")
+            }
+            className={`${inputClass} col-span-2`}
+          >
+            <option value="">Any property type</option>
+            {propertyTypes.map((t) => (
+              <option key={t} value={t}>
+                {PROPERTY_TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={filters.listingType}
+            onChange={(e) =>
+              set("listingType", e.target.value as ListingType | "")
+            }
+            className={inputClass}
+          >
+            <option value="">Sales and rentals</option>
+            {LISTING_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {LISTING_TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={filters.currency}
+            onChange={(e) => set("currency", e.target.value as Currency | "")}
+            className={inputClass}
+          >
+            <option value="">Any currency</option>
+            {CURRENCIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+
+          <input
+            value={filters.minPrice}
+            onChange={(e) => set("minPrice", e.target.value)}
+            placeholder={`Min ${priceLabel} (${scope.currency})`}
+            inputMode="numeric"
+            className={inputClass}
+          />
+          <input
+            value={filters.maxPrice}
+            onChange={(e) => set("maxPrice", e.target.value)}
+            placeholder={`Max ${priceLabel} (${scope.currency})`}
+            inputMode="numeric"
+            className={inputClass}
+          />
+
+          <label className="flex flex-col gap-0.5">
+            From
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => set("from", e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-0.5">
+            To
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => set("to", e.target.value)}
+              className={inputClass}
+            />
+          </label>
+
+          <button
+            type="button"
+            onClick={() => onChange({ ...EMPTY_FILTERS, sort: filters.sort })}
+            disabled={!active}
+            className="col-span-2 text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50"
+          >
+            Clear filters
+          </button>
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { downloadFile } from "../lib/download";
+import type { HistoryItem } from "../lib/history";
+import {
+  CONFLICT_STRATEGIES,
+  applyHistoryImport,
+  exportHistory,
+  historyExportFileName,
+  parseHistoryImport,
+  planHistoryImport,
+  type ConflictStrategy,
+  type ParsedHistoryImport,
+} from "../lib/historyTransfer";
+
+type HistoryTransferProps = {
+  history: HistoryItem[];
+  /** Receives the merged list. */
+  onImport: (items: HistoryItem[]) => void;
+};
+
+const buttonClass =
+  "text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50";
+
+/** Moves the whole history between devices as a versioned JSON file. */
+export default function HistoryTransfer({
+  history,
+  onImport,
+}: HistoryTransferProps) {
+  const [pending, setPending] = useState<ParsedHistoryImport | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy>("newer");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Planned against the current list, so changes from other tabs count.
+  const plan = pending && planHistoryImport(history, pending.items);
+
+  const loadFile = async (file: File) => {
+    setMessage(null);
+    setError(null);
+    try {
+      setPending(parseHistoryImport(await file.text()));
+    } catch (e) {
+      setPending(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const apply = () => {
+    if (!plan) return;
+    onImport(applyHistoryImport(history, plan, strategy));
+    setMessage(
+      `Imported ${plan.added.length} new and resolved ${plan.conflicts.length} conflicting entries.`
+    );
+    setPending(null);
+  };
+
+  return (
+    <details className="border border-[#1F1F1F] rounded-xl bg-[#070707]/60 px-3 py-2">
+      <summary className="text-xs uppercase text-[#A0A0A0] cursor-pointer">
+        Backup & transfer history
+      </summary>
+
+      <div className="mt-2 space-y-2 text-[11px]">
+        <p className="text-[#A0A0A0]">
+          Export every saved listing to a file, then import it on another
+          device. Entries are matched by id, so importing twice is safe.
+        </p>
+        <div className="flex gap-2 flex-wrap">
+          <button
+            type="button"
+            onClick={() =>
+              downloadFile(historyExportFileName(), exportHistory(history))
+            }
+            disabled={history.length === 0}
+            className={buttonClass}
+          >
+            Export {history.length} listings
+          </button>
+          <label className={`${buttonClass} cursor-pointer`}>
+            Import file
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) loadFile(file);
+              }}
+            />
+          </label>
+        </div>
+
+        {error && <p className="text-red-400">{error}</p>}
+        {message && <p className="text-[#A0A0A0]">{message}</p>}
+
+        {pending && plan && (
+          <div className="space-y-2 border border-[#2A2A2A] rounded-lg px-2 py-2">
+            <p className="text-[#F5F5F5]">
+              {plan.added.length} new · {plan.unchanged} already here ·{" "}
+              {plan.conflicts.length} changed on both sides
+            </p>
+
+            {pending.invalid.length > 0 && (
+              <div className="text-amber-400">
+                <p>
+                  {pending.invalid.length} invalid{" "}
+                  {pending.invalid.length === 1 ? "entry" : "entries"} will be
+                  skipped:
+                </p>
+                <ul className="list-disc pl-4">
+                  {pending.invalid.slice(0, 3).map(({ index, error }) => (
+                    <li key={index}>
+                      #{index + 1}: {error}
+                    </li>
+                  ))}
+                  {pending.invalid.length > 3 && (
+                    <li>…and {pending.invalid.length - 3} more</li>
+                  )}
+                </ul>
+              </div>
+            )}
+
+            {plan.conflicts.length > 0 && (
+              <label className="flex items-center gap-2 text-[#A0A0A0]">
+                Conflicts:
+                <select
+                  value={strategy}
+                  onChange={(e) =>
+                    setStrategy(e.target.value as ConflictStrategy)
+                  }
+                  className="flex-1 bg-[#070707] border border-[#2A2A2A] rounded px-1 py-1"
+                >
+                  {Object.entries(CONFLICT_STRATEGIES).map(([key, label]) => (
+                    <option key={key} value={key}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={apply}
+                disabled={plan.added.length + plan.conflicts.length === 0}
+                className={buttonClass}
+              >
+                Import
+              </button>
+              <button
+                type="button"
+                onClick={() => setPending(null)}
+                className={buttonClass}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
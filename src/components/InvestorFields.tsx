@@ -0,0 +1,79 @@
+import type { ListingFormState } from "../lib/listing";
+import InvestorSheet from "./InvestorSheet";
+
+type InvestorFieldsProps = {
+  form: ListingFormState;
+  onChange: (patch: Partial<ListingFormState>) => void;
+  errors: Partial<Record<keyof ListingFormState, string>>;
+};
+
+type InvestorField =
+  | "expectedRent"
+  | "annualTaxes"
+  | "monthlyHoa"
+  | "annualInsurance"
+  | "downPaymentPercent"
+  | "interestRate";
+
+const FIELDS: { name: InvestorField; label: string; step: string }[] = [
+  { name: "expectedRent", label: "Expected rent / mo", step: "any" },
+  { name: "annualTaxes", label: "Taxes / yr", step: "any" },
+  { name: "monthlyHoa", label: "HOA / mo", step: "any" },
+  { name: "annualInsurance", label: "Insurance / yr", step: "any" },
+  { name: "downPaymentPercent", label: "Down payment %", step: "1" },
+  { name: "interestRate", label: "Interest rate %", step: "0.125" },
+];
+
+const inputClass =
+  "w-full bg-[#070707] border border-[#2A2A2A] rounded-lg px-3 py-2 mt-1 text-sm focus:border-[#F4C96B] outline-none";
+
+/** Optional figures for the investor calculator, with the live results. */
+export default function InvestorFields({
+  form,
+  onChange,
+  errors,
+}: InvestorFieldsProps) {
+  return (
+    <details className="border border-[#1F1F1F] rounded-xl bg-[#070707]/60 px-3 py-2">
+      <summary className="text-xs uppercase text-[#A0A0A0] cursor-pointer">
+        Investor analysis
+      </summary>
+      <div className="mt-2 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          {FIELDS.map(({ name, label, step }) => (
+            <div key={name}>
+              <label className="text-xs uppercase text-[#A0A0A0]">
+                {label}
+              </label>
+              <input
+                name={name}
+                type="number"
+                min={0}
+                step={step}
+                value={form[name] ?? ""}
+                onChange={(e) =>
+                  onChange({
+                    [name]:
+                      e.target.value === ""
+                        ? undefined
+                        : Number(e.target.value),
+                  })
+                }
+                className={inputClass}
+              />
+              {errors[name] && (
+                <p className="text-red-400 text-[11px] mt-1">
+                  {errors[name]}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+        <InvestorSheet
+          form={form}
+          emptyText="Enter a price and the expected rent to see cap rate, cash-on-cash return and cash flow. Without a down payment and rate, the purchase is treated as all cash."
+        />
+      </div>
+    </details>
+  );
+}
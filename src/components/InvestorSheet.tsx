@@ -0,0 +1,33 @@
+import { analyzeInvestment, investorFigures } from "../lib/investor";
+import type { ListingFormState } from "../lib/listing";
+
+type InvestorSheetProps = {
+  form: ListingFormState;
+  /** Shown when the form doesn't have enough figures yet. */
+  emptyText?: string;
+};
+
+/** Calculator results as a table; the export bar downloads them as CSV. */
+export default function InvestorSheet({ form, emptyText }: InvestorSheetProps) {
+  const analysis = analyzeInvestment(form);
+  if (!analysis) {
+    return emptyText ? (
+      <p className="text-[11px] text-[#A0A0A0]">{emptyText}</p>
+    ) : null;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {investorFigures(analysis, form.currency, form.language).map(
+          ({ label, value }) => (
+            <tr key={label} className="border-b border-[#1F1F1F]">
+              <td className="py-1 text-[#A0A0A0]">{label}</td>
+              <td className="py-1 text-right">{value}</td>
+            </tr>
+          )
+        )}
+      </tbody>
+    </table>
+  );
+}
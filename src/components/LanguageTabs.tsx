@@ -0,0 +1,69 @@
+import { LANGUAGES, LANGUAGE_LABELS, type Language } from "../lib/listing";
+
+type LanguageTabsProps = {
+  /** Locales the listing already has, primary first. */
+  languages: Language[];
+  active: Language;
+  /** Locales still being generated or translated. */
+  pending: Language[];
+  onSelect: (language: Language) => void;
+  onTranslate: (language: Language) => void;
+  disabled?: boolean;
+};
+
+/** Switches between a listing's language versions and adds new ones. */
+export default function LanguageTabs({
+  languages,
+  active,
+  pending,
+  onSelect,
+  onTranslate,
+  disabled,
+}: LanguageTabsProps) {
+  const missing = LANGUAGES.filter(
+    (l) => !languages.includes(l) && !pending.includes(l)
+  );
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap text-[11px]">
+      {languages.map((l) => (
+        <button
+          key={l}
+          type="button"
+          onClick={() => onSelect(l)}
+          className={`px-2 py-1 rounded border ${
+            l === active
+              ? "border-[#F4C96B] text-[#F4C96B]"
+              : "border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
+          }`}
+        >
+          {LANGUAGE_LABELS[l]}
+        </button>
+      ))}
+      {pending.map((l) => (
+        <span
+          key={l}
+          className="px-2 py-1 rounded border border-dashed border-[#2A2A2A] text-[#A0A0A0]"
+        >
+          {LANGUAGE_LABELS[l]}…
+        </span>
+      ))}
+      {missing.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => onTranslate(e.target.value as Language)}
+          disabled={disabled}
+          className="ml-auto bg-[#070707] border border-[#2A2A2A] rounded px-1 py-1 text-[#A0A0A0] disabled:opacity-50"
+          title="Localize the version shown instead of regenerating"
+        >
+          <option value="">Translate {LANGUAGE_LABELS[active]} to…</option>
+          {missing.map((l) => (
+            <option key={l} value={l}>
+              {LANGUAGE_LABELS[l]}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { apiVisionProvider } from "../lib/api";
+import { readPhoto } from "../lib/photoFiles";
+import {
+  MAX_PHOTOS,
+  appendHighlight,
+  pendingSuggestions,
+  type FeatureSuggestion,
+  type Photo,
+  type VisionProvider,
+} from "../lib/photos";
+
+type PhotoSuggestionsProps = {
+  highlights: string;
+  onChange: (highlights: string) => void;
+  /** Defaults to the server; tests and demos can pass the mock. */
+  vision?: VisionProvider;
+};
+
+const buttonClass =
+  "text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50";
+
+/** Attach listing photos and turn what they show into highlight chips. */
+export default function PhotoSuggestions({
+  highlights,
+  onChange,
+  vision = apiVisionProvider,
+}: PhotoSuggestionsProps) {
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [suggestions, setSuggestions] = useState<FeatureSuggestion[] | null>(
+    null
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Accepted chips disappear because the highlights now mention them.
+  const pending = suggestions && pendingSuggestions(suggestions, highlights);
+
+  const addFiles = async (files: File[]) => {
+    setError(null);
+    const room = MAX_PHOTOS - photos.length;
+    if (files.length > room) {
+      setError(`Up to ${MAX_PHOTOS} photos; extra files were skipped.`);
+    }
+    try {
+      const added = await Promise.all(files.slice(0, room).map(readPhoto));
+      setPhotos((prev) => [...prev, ...added]);
+      setSuggestions(null);
+    } catch {
+      setError("Some files couldn't be read as images.");
+    }
+  };
+
+  const analyze = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setSuggestions(await vision.suggestFeatures(photos));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const accept = (list: FeatureSuggestion[]) =>
+    onChange(
+      list.reduce((text, s) => appendHighlight(text, s.label), highlights)
+    );
+
+  const describe = (s: FeatureSuggestion) =>
+    [
+      `${Math.round(s.confidence * 100)}% confident`,
+      ...s.photos.map((i) => photos[i]?.name).filter(Boolean),
+    ].join(" · ");
+
+  return (
+    <details className="border border-[#1F1F1F] rounded-xl bg-[#070707]/60 px-3 py-2">
+      <summary className="text-xs uppercase text-[#A0A0A0] cursor-pointer">
+        Suggest features from photos
+      </summary>
+
+      <div className="mt-2 space-y-2 text-[11px]">
+        {photos.length > 0 && (
+          <div className="flex gap-1 flex-wrap">
+            {photos.map((photo, i) => (
+              <div key={i} className="relative">
+                <img
+                  src={photo.dataUrl}
+                  alt={photo.name}
+                  title={photo.name}
+                  className="w-14 h-14 object-cover rounded border border-[#2A2A2A]"
+                />
+                <button
+                  type="button"
+                  onClick={() => {
+                    setPhotos((prev) => prev.filter((_, j) => j !== i));
+                    setSuggestions(null);
+                  }}
+                  title="Remove photo"
+                  className="absolute -top-1 -right-1 w-4 h-4 leading-4 rounded-full bg-[#0D0D0D] border border-[#2A2A2A] text-[9px] text-[#A0A0A0] hover:text-red-400"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <label className={`${buttonClass} cursor-pointer`}>
+            Add photos
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = [...(e.target.files ?? [])];
+                e.target.value = "";
+                if (files.length) addFiles(files);
+              }}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={analyze}
+            disabled={photos.length === 0 || loading}
+            className={buttonClass}
+          >
+            {loading
+              ? "Analyzing…"
+              : photos.length
+              ? `Analyze ${photos.length} photo${photos.length === 1 ? "" : "s"}`
+              : "Analyze photos"}
+          </button>
+        </div>
+
+        {error && <p className="text-red-400">{error}</p>}
+
+        {pending && (
+          <div className="space-y-1">
+            {pending.length === 0 ? (
+              <p className="text-[#A0A0A0]">
+                {suggestions!.length
+                  ? "All suggestions are in the highlights."
+                  : "No features found in these photos."}
+              </p>
+            ) : (
+              <>
+                <div className="flex gap-1 flex-wrap">
+                  {pending.map((s) => (
+                    <button
+                      key={s.label}
+                      type="button"
+                      onClick={() => accept([s])}
+                      title={describe(s)}
+                      className={`${buttonClass} ${
+                        s.confidence < 0.6 ? "border-dashed" : ""
+                      }`}
+                    >
+                      + {s.label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => accept(pending)}
+                  className={buttonClass}
+                >
+                  Add all {pending.length} to highlights
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,165 @@
+import { useRef, useState } from "react";
+import {
+  CHANNELS,
+  CHANNEL_KEYS,
+  getChannel,
+  type ChannelKey,
+} from "../lib/channels";
+import { downloadFile } from "../lib/download";
+import { createId } from "../lib/id";
+import {
+  mergePresets,
+  parsePresetFile,
+  serializePresets,
+  type RewritePreset,
+} from "../lib/presets";
+
+type PresetManagerProps = {
+  presets: RewritePreset[];
+  onChange: (presets: RewritePreset[]) => void;
+};
+
+const inputClass =
+  "bg-[#070707] border border-[#2A2A2A] rounded px-2 py-1 text-xs focus:border-[#F4C96B] outline-none";
+
+const buttonClass =
+  "text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50";
+
+export default function PresetManager({
+  presets,
+  onChange,
+}: PresetManagerProps) {
+  const [name, setName] = useState("");
+  const [instruction, setInstruction] = useState("");
+  const [fields, setFields] = useState<ChannelKey[]>([...CHANNEL_KEYS]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const toggleField = (field: ChannelKey) =>
+    setFields((prev) =>
+      prev.includes(field) ? prev.filter((f) => f !== field) : [...prev, field]
+    );
+
+  const add = () => {
+    if (!name.trim() || !instruction.trim() || fields.length === 0) return;
+    onChange([
+      ...presets,
+      {
+        id: createId(),
+        name: name.trim(),
+        instruction: instruction.trim(),
+        fields,
+      },
+    ]);
+    setName("");
+    setInstruction("");
+  };
+
+  const importFile = async (file: File) => {
+    setImportError(null);
+    try {
+      onChange(mergePresets(presets, parsePresetFile(await file.text())));
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <details className="border border-[#1F1F1F] rounded-xl bg-[#070707]/60 px-3 py-2">
+      <summary className="text-xs uppercase text-[#A0A0A0] cursor-pointer">
+        Rewrite presets ({presets.length})
+      </summary>
+
+      <div className="mt-2 space-y-2">
+        <input
+          placeholder="Preset name, e.g. Waterfront Focus"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={`${inputClass} w-full`}
+        />
+        <textarea
+          placeholder="Instruction sent to the rewriter"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          rows={2}
+          className={`${inputClass} w-full`}
+        />
+        <div className="flex flex-wrap gap-2 text-[11px] text-[#A0A0A0]">
+          {CHANNELS.map((c) => (
+            <label key={c.key} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={fields.includes(c.key)}
+                onChange={() => toggleField(c.key)}
+              />
+              {c.label}
+            </label>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={add}
+          disabled={!name.trim() || !instruction.trim() || !fields.length}
+          className={buttonClass}
+        >
+          Save preset
+        </button>
+      </div>
+
+      <ul className="mt-2 max-h-40 overflow-auto divide-y divide-[#1F1F1F]">
+        {presets.map((p) => (
+          <li key={p.id} className="py-1 flex items-center gap-2 text-[11px]">
+            <div className="flex-1 min-w-0">
+              <div className="truncate">{p.name}</div>
+              <div className="text-[10px] text-[#A0A0A0] truncate">
+                {p.fields.map((f) => getChannel(f).label).join(", ")} —{" "}
+                {p.instruction}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => onChange(presets.filter((x) => x.id !== p.id))}
+              className="text-[#A0A0A0] hover:text-red-400"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-2 flex gap-2">
+        <button
+          type="button"
+          onClick={() =>
+            downloadFile("luxlist-presets.json", serializePresets(presets))
+          }
+          disabled={presets.length === 0}
+          className={buttonClass}
+        >
+          Export JSON
+        </button>
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          className={buttonClass}
+        >
+          Import JSON
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {importError && (
+        <p className="text-red-400 text-[11px] mt-1">{importError}</p>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { CHANNELS, type ChannelKey } from "../lib/channels";
+import { formatDate } from "../lib/format";
+import {
+  BODY_VARIABLES,
+  CHANNEL_VARIABLES,
+  DEFAULT_PROMPT_TEMPLATE,
+  channelPrompt,
+  findTemplate,
+  nextTemplateVersion,
+  templateWarnings,
+  type PromptTemplate,
+} from "../lib/promptTemplate";
+
+type PromptTemplateEditorProps = {
+  /** Every saved version, including the built-in default. */
+  versions: PromptTemplate[];
+  active: number;
+  onActivate: (version: number) => void;
+  /** Receives a new version; saved versions are never edited in place. */
+  onSave: (template: PromptTemplate) => void;
+};
+
+const inputClass =
+  "w-full bg-[#070707] border border-[#2A2A2A] rounded px-2 py-1 text-xs font-mono focus:border-[#F4C96B] outline-none";
+
+const buttonClass =
+  "text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50";
+
+const variableList = (names: string[]) =>
+  names.map((n) => `{{${n}}}`).join(" ");
+
+export default function PromptTemplateEditor({
+  versions,
+  active,
+  onActivate,
+  onSave,
+}: PromptTemplateEditorProps) {
+  // Both follow the props until the user picks a version or starts editing.
+  const [picked, setPicked] = useState<number | null>(null);
+  const [edits, setEdits] = useState<PromptTemplate | null>(null);
+  const [channel, setChannel] = useState<ChannelKey>("mls");
+
+  const selected = picked ?? active;
+  const base = findTemplate(versions, selected);
+  const draft = edits ?? base;
+  const dirty = JSON.stringify(draft) !== JSON.stringify(base);
+  const warnings = templateWarnings(draft);
+  const nextVersion = nextTemplateVersion(versions);
+
+  const select = (version: number) => {
+    setPicked(version);
+    setEdits(null);
+  };
+
+  const save = () => {
+    onSave({
+      ...draft,
+      name: draft.name.trim() || `Version ${nextVersion}`,
+      version: nextVersion,
+      createdAt: new Date().toISOString(),
+    });
+    setPicked(null);
+    setEdits(null);
+  };
+
+  return (
+    <details className="border border-[#1F1F1F] rounded-xl bg-[#070707]/60 px-3 py-2">
+      <summary className="text-xs uppercase text-[#A0A0A0] cursor-pointer">
+        Prompt template (v{active})
+      </summary>
+
+      <div className="mt-2 space-y-2 text-[11px]">
+        <div className="flex gap-2 items-center">
+          <select
+            value={selected}
+            onChange={(e) => select(Number(e.target.value))}
+            className="flex-1 bg-[#070707] border border-[#2A2A2A] rounded px-2 py-1 text-xs"
+          >
+            {[...versions].reverse().map((t) => (
+              <option key={t.version} value={t.version}>
+                v{t.version} · {t.name}
+                {t.version === active ? " (active)" : ""}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => onActivate(selected)}
+            disabled={selected === active}
+            className={buttonClass}
+          >
+            Use v{selected}
+          </button>
+        </div>
+        <p className="text-[#A0A0A0]">
+          {base.version === DEFAULT_PROMPT_TEMPLATE.version
+            ? "Built-in default."
+            : `Saved ${formatDate(base.createdAt)}.`}{" "}
+          Edits are saved as a new version; history entries keep the version
+          that produced them.
+        </p>
+
+        <input
+          value={draft.name}
+          onChange={(e) => setEdits({ ...draft, name: e.target.value })}
+          placeholder="Version name"
+          className={inputClass}
+        />
+
+        <label className="block text-[#A0A0A0]">
+          System message
+          <textarea
+            value={draft.generateSystem}
+            onChange={(e) =>
+              setEdits({ ...draft, generateSystem: e.target.value })
+            }
+            rows={2}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="block text-[#A0A0A0]">
+          Prompt body
+          <textarea
+            value={draft.body}
+            onChange={(e) => setEdits({ ...draft, body: e.target.value })}
+            rows={8}
+            className={inputClass}
+          />
+        </label>
+        <p className="text-[#A0A0A0] break-words">
+          {variableList(BODY_VARIABLES)}
+        </p>
+
+        <label className="block text-[#A0A0A0]">
+          <span className="flex items-center gap-2">
+            Channel block
+            <select
+              value={channel}
+              onChange={(e) =>
+                setChannel(e.target.value as ChannelKey)
+              }
+              className="bg-[#070707] border border-[#2A2A2A] rounded px-1 py-0.5"
+            >
+              {CHANNELS.map((c) => (
+                <option key={c.key} value={c.key}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+          </span>
+          <textarea
+            value={channelPrompt(draft, channel)}
+            onChange={(e) =>
+              setEdits({
+                ...draft,
+                channels: { ...draft.channels, [channel]: e.target.value },
+              })
+            }
+            rows={6}
+            className={inputClass}
+          />
+        </label>
+        <p className="text-[#A0A0A0] break-words">
+          {variableList(CHANNEL_VARIABLES)}
+        </p>
+
+        <label className="block text-[#A0A0A0]">
+          Rewrite system message
+          <textarea
+            value={draft.rewriteSystem}
+            onChange={(e) =>
+              setEdits({ ...draft, rewriteSystem: e.target.value })
+            }
+            rows={2}
+            className={inputClass}
+          />
+        </label>
+
+        {warnings.length > 0 && (
+          <ul className="text-amber-400 space-y-0.5">
+            {warnings.map((w) => (
+              <li key={w}>⚠ {w}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={save}
+            disabled={!dirty}
+            className={buttonClass}
+          >
+            Save as v{nextVersion}
+          </button>
+          <button
+            type="button"
+            onClick={() => setEdits(null)}
+            disabled={!dirty}
+            className={buttonClass}
+          >
+            Discard changes
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { formatPrice, readPrice } from "../lib/format";
+import type { ListingFormState } from "../lib/listing";
+import {
+  AREA_UNITS,
+  AREA_UNIT_LABELS,
+  CURRENCIES,
+  LIVING_AREA_UNITS,
+  PROPERTY_TYPES,
+  PROPERTY_TYPE_LABELS,
+  YEAR_BUILT_MIN,
+  detectCurrency,
+  yearBuiltMax,
+  type AreaUnit,
+  type Currency,
+  type PropertyType,
+} from "../lib/propertyFields";
+
+type FieldErrors = Partial<Record<keyof ListingFormState, string>>;
+
+type PropertyFieldsProps = {
+  form: ListingFormState;
+  onChange: (patch: Partial<ListingFormState>) => void;
+  errors: FieldErrors;
+  /** Show every error, not just those of fields the agent has left. */
+  showAllErrors: boolean;
+};
+
+const inputClass =
+  "w-full bg-[#070707] border rounded-lg px-3 py-2 mt-1 text-sm focus:border-[#F4C96B] outline-none";
+
+const unitClass =
+  "bg-[#070707] border border-[#2A2A2A] rounded-lg px-2 py-2 mt-1 text-sm focus:border-[#F4C96B] outline-none";
+
+const labelClass = "text-xs uppercase text-[#A0A0A0]";
+
+/** Empty input clears the value instead of storing 0. */
+const toNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+/** Typed property facts with unit pickers and inline validation. */
+export default function PropertyFields({
+  form,
+  onChange,
+  errors,
+  showAllErrors,
+}: PropertyFieldsProps) {
+  const [touched, setTouched] = useState<Set<keyof ListingFormState>>(
+    new Set()
+  );
+
+  const errorFor = (field: keyof ListingFormState) =>
+    showAllErrors || touched.has(field) ? errors[field] : undefined;
+
+  const field = (name: keyof ListingFormState) => ({
+    name,
+    onBlur: () => setTouched((prev) => new Set(prev).add(name)),
+    className: `${inputClass} ${
+      errorFor(name) ? "border-red-500/70" : "border-[#2A2A2A]"
+    }`,
+  });
+
+  const error = (name: keyof ListingFormState) =>
+    errorFor(name) && (
+      <p className="text-red-400 text-[11px] mt-1">{errorFor(name)}</p>
+    );
+
+  const rental = form.listingType === "rental";
+
+  // Shorthand like "1.2M" is worth confirming; plain digits aren't, unless
+  // they're a rent that will read as monthly.
+  const pricePreview =
+    form.price &&
+    readPrice(form.price) &&
+    (rental || /[^\d\s.,$]/.test(form.price))
+      ? formatPrice(form.price, form.currency, form.language, rental)
+      : undefined;
+
+  const numberInput = (
+    name: "beds" | "fullBaths" | "halfBaths" | "yearBuilt",
+    props: { min: number; max?: number }
+  ) => (
+    <input
+      {...field(name)}
+      type="number"
+      step={1}
+      {...props}
+      value={form[name] ?? ""}
+      onChange={(e) => onChange({ [name]: toNumber(e.target.value) })}
+    />
+  );
+
+  const areaInput = (
+    name: "livingArea" | "lotSize",
+    unitName: "livingAreaUnit" | "lotSizeUnit",
+    units: readonly AreaUnit[]
+  ) => (
+    <div className="flex gap-2">
+      <input
+        {...field(name)}
+        type="number"
+        min={0}
+        step="any"
+        value={form[name] ?? ""}
+        onChange={(e) => onChange({ [name]: toNumber(e.target.value) })}
+      />
+      <select
+        name={unitName}
+        value={form[unitName]}
+        onChange={(e) => onChange({ [unitName]: e.target.value })}
+        className={unitClass}
+      >
+        {units.map((unit) => (
+          <option key={unit} value={unit}>
+            {AREA_UNIT_LABELS[unit]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Property Type *</label>
+          <select
+            {...field("propertyType")}
+            value={form.propertyType}
+            onChange={(e) =>
+              onChange({ propertyType: e.target.value as PropertyType })
+            }
+          >
+            {PROPERTY_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {PROPERTY_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Style</label>
+          <input
+            {...field("style")}
+            value={form.style ?? ""}
+            placeholder="e.g. Craftsman bungalow"
+            onChange={(e) => onChange({ style: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Address</label>
+        <input
+          {...field("address")}
+          value={form.address ?? ""}
+          onChange={(e) => onChange({ address: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <label className={labelClass}>
+          {rental ? "Monthly Rent *" : "Price"}
+        </label>
+        <div className="flex gap-2">
+          <input
+            {...field("price")}
+            value={form.price ?? ""}
+            placeholder={rental ? "e.g. $3,200" : "850k, $1.2M or $3,200/mo"}
+            onChange={(e) => {
+              // Typing "€" or "CAD" picks the currency too.
+              const currency = detectCurrency(e.target.value);
+              onChange({
+                price: e.target.value,
+                ...(currency && { currency }),
+              });
+            }}
+          />
+          <select
+            name="currency"
+            value={form.currency}
+            onChange={(e) => onChange({ currency: e.target.value as Currency })}
+            className={unitClass}
+          >
+            {CURRENCIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </div>
+        {error("price") ||
+          (pricePreview && (
+            <p className="text-[#A0A0A0] text-[11px] mt-1">
+              Reads as {pricePreview}
+            </p>
+          ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>Beds</label>
+          {numberInput("beds", { min: 0, max: 50 })}
+          {error("beds")}
+        </div>
+        <div>
+          <label className={labelClass}>Full Baths</label>
+          {numberInput("fullBaths", { min: 0, max: 50 })}
+          {error("fullBaths")}
+        </div>
+        <div>
+          <label className={labelClass}>Half Baths</label>
+          {numberInput("halfBaths", { min: 0, max: 20 })}
+          {error("halfBaths")}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Living Area</label>
+          {areaInput("livingArea", "livingAreaUnit", LIVING_AREA_UNITS)}
+          {error("livingArea")}
+        </div>
+        <div>
+          <label className={labelClass}>Lot Size</label>
+          {areaInput("lotSize", "lotSizeUnit", AREA_UNITS)}
+          {error("lotSize")}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Year Built</label>
+          {numberInput("yearBuilt", {
+            min: YEAR_BUILT_MIN,
+            max: yearBuiltMax(),
+          })}
+          {error("yearBuilt")}
+        </div>
+        <div>
+          <label className={labelClass}>Parking</label>
+          <input
+            {...field("parking")}
+            value={form.parking ?? ""}
+            onChange={(e) => onChange({ parking: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Neighborhood</label>
+        <input
+          {...field("neighborhood")}
+          value={form.neighborhood ?? ""}
+          onChange={(e) => onChange({ neighborhood: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createHistoryItem, type HistoryItem } from "../lib/history";
+import { EMPTY_FORM } from "../lib/listing";
+import PropertyHistory from "./PropertyHistory";
+
+const ITEM: HistoryItem = {
+  ...createHistoryItem(
+    { ...EMPTY_FORM, address: "12 Harbor Ln", price: "1250000" },
+    { heading: "Harbor-view colonial" },
+    { model: "openai:gpt-4o" }
+  ),
+  favorite: true,
+};
+
+const renderHistory = (history: HistoryItem[] = [ITEM]) => {
+  const props = {
+    history,
+    selectedId: null,
+    onSelect: vi.fn(),
+    onToggleFavorite: vi.fn(),
+    onDelete: vi.fn(),
+    onStatusChange: vi.fn(),
+  };
+  render(<PropertyHistory {...props} />);
+  // Versions are listed once the property is expanded.
+  fireEvent.click(screen.getByText("12 Harbor Ln"));
+  return props;
+};
+
+describe("PropertyHistory", () => {
+  afterEach(cleanup);
+
+  it("shows the empty state", () => {
+    render(
+      <PropertyHistory
+        history={[]}
+        selectedId={null}
+        onSelect={vi.fn()}
+        onToggleFavorite={vi.fn()}
+        onDelete={vi.fn()}
+        onStatusChange={vi.fn()}
+        emptyText="Nothing saved"
+      />
+    );
+    expect(screen.getByText("Nothing saved")).toBeTruthy();
+  });
+
+  it("lists each version with its price and model", () => {
+    const props = renderHistory();
+    expect(props.onSelect).toHaveBeenCalledWith(ITEM);
+    expect(screen.getByText("Harbor-view colonial")).toBeTruthy();
+    expect(screen.getByText(/\$1,250,000 • gpt-4o · OpenAI/)).toBeTruthy();
+  });
+
+  it("toggles the favorite without selecting the version", () => {
+    const props = renderHistory();
+    props.onSelect.mockClear();
+    fireEvent.click(screen.getByTitle("Unstar"));
+    expect(props.onToggleFavorite).toHaveBeenCalledWith(ITEM.id);
+    expect(props.onSelect).not.toHaveBeenCalled();
+  });
+
+  it("deletes the version", () => {
+    const props = renderHistory();
+    fireEvent.click(screen.getByTitle("Delete"));
+    expect(props.onDelete).toHaveBeenCalledWith(ITEM.id);
+  });
+});
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { formatDate } from "../lib/format";
+import { itemLanguages, itemLocale, type HistoryItem } from "../lib/history";
+import {
+  LISTING_STATUSES,
+  statusLabel,
+  type ListingStatus,
+  type ListingType,
+} from "../lib/listing";
+import { modelLabel } from "../lib/models";
+import { formFieldText } from "../lib/propertyFields";
+import {
+  currentStatus,
+  groupProperties,
+  latestItem,
+  propertyTimeline,
+} from "../lib/properties";
+
+type PropertyHistoryProps = {
+  history: HistoryItem[];
+  selectedId: string | null;
+  onSelect: (item: HistoryItem) => void;
+  onToggleFavorite: (id: string) => void;
+  onDelete: (id: string) => void;
+  /** Loads the entry into the form with a new status, ready to generate. */
+  onStatusChange: (item: HistoryItem, status: ListingStatus) => void;
+  /** Shown instead of the list when `history` is empty. */
+  emptyText?: string;
+};
+
+const StatusBadge = ({
+  status,
+  listingType,
+}: {
+  status: ListingStatus;
+  listingType?: ListingType;
+}) => (
+  <span className="shrink-0 text-[10px] px-1.5 py-0.5 rounded border border-[#2A2A2A] text-[#F4C96B]">
+    {statusLabel(status, listingType)}
+  </span>
+);
+
+/** History grouped by property, each with a timeline of its generations. */
+export default function PropertyHistory({
+  history,
+  selectedId,
+  onSelect,
+  onToggleFavorite,
+  onDelete,
+  onStatusChange,
+  emptyText = "No history yet. Generate a listing to save it here.",
+}: PropertyHistoryProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const properties = groupProperties(history);
+
+  if (properties.length === 0) {
+    return (
+      <div className="border border-[#1F1F1F] rounded-xl bg-[#070707]/60 mb-2">
+        <p className="text-xs text-[#A0A0A0] px-3 py-2">{emptyText}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-h-72 overflow-auto border border-[#1F1F1F] rounded-xl bg-[#070707]/60 mb-2">
+      <ul className="divide-y divide-[#1F1F1F]">
+        {properties.map((property) => {
+          const latest = latestItem(property);
+          const status = currentStatus(property);
+          const open = expanded === property.key;
+
+          return (
+            <li key={property.key}>
+              <div
+                className={`px-3 py-2 text-xs flex items-center gap-2 cursor-pointer hover:bg-white/5 ${
+                  property.items.some((i) => i.id === selectedId)
+                    ? "bg-white/10"
+                    : ""
+                }`}
+                onClick={() => {
+                  onSelect(latest);
+                  setExpanded(open ? null : property.key);
+                }}
+              >
+                <span className="text-[#A0A0A0] w-3">{open ? "▾" : "▸"}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">
+                    {property.address ||
+                      itemLocale(latest).outputs.heading ||
+                      "Untitled listing"}
+                  </div>
+                  <div className="text-[10px] text-[#A0A0A0] truncate">
+                    {formFieldText(latest.form, "price") || "No price"}{" "}
+                    • {property.items.length}{" "}
+                    {property.items.length === 1 ? "version" : "versions"} •
+                    updated {formatDate(latest.createdAt)}
+                  </div>
+                </div>
+                <StatusBadge
+                  status={status}
+                  listingType={latest.form.listingType}
+                />
+              </div>
+
+              {open && (
+                <div className="px-3 pb-3 text-xs">
+                  <ol className="ml-1.5 border-l border-[#2A2A2A] space-y-2">
+                    {propertyTimeline(property).map(
+                      ({ item, previousStatus }) => (
+                        <li
+                          key={item.id}
+                          className={`relative pl-3 cursor-pointer ${
+                            item.id === selectedId
+                              ? "text-[#F5F5F5]"
+                              : "text-[#A0A0A0] hover:text-[#F5F5F5]"
+                          }`}
+                          onClick={() => onSelect(item)}
+                        >
+                          <span
+                            className={`absolute -left-[4px] top-1.5 w-[7px] h-[7px] rounded-full ${
+                              previousStatus ? "bg-[#F4C96B]" : "bg-[#2A2A2A]"
+                            }`}
+                          />
+                          <div className="flex items-center gap-2">
+                            <span className="text-[10px]">
+                              {formatDate(item.createdAt)}
+                            </span>
+                            {previousStatus && (
+                              <span className="text-[10px] text-[#A0A0A0]">
+                                {statusLabel(
+                                  previousStatus,
+                                  item.form.listingType
+                                )}{" "}
+                                →
+                              </span>
+                            )}
+                            <StatusBadge
+                              status={item.form.status}
+                              listingType={item.form.listingType}
+                            />
+                            <span className="flex-1" />
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onToggleFavorite(item.id);
+                              }}
+                              className="text-[#F4C96B] hover:text-[#FFE19B]"
+                              title={item.favorite ? "Unstar" : "Star"}
+                            >
+                              {item.favorite ? "★" : "☆"}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onDelete(item.id);
+                              }}
+                              className="text-[#A0A0A0] hover:text-red-400"
+                              title="Delete"
+                            >
+                              ✕
+                            </button>
+                          </div>
+                          <div className="font-medium truncate">
+                            {itemLocale(item).outputs.heading ||
+                              "Untitled listing"}
+                          </div>
+                          <div className="text-[10px] text-[#A0A0A0] truncate">
+                            {formFieldText(item.form, "price") || "No price"}
+                            {item.templateVersion &&
+                              ` • Prompt v${item.templateVersion}`}
+                            {item.model && ` • ${modelLabel(item.model)}`}
+                            {Object.keys(item.locales).length > 1 &&
+                              ` • ${itemLanguages(item)
+                                .join("/")
+                                .toUpperCase()}`}
+                          </div>
+                        </li>
+                      )
+                    )}
+                  </ol>
+
+                  <select
+                    value=""
+                    onChange={(e) =>
+                      onStatusChange(latest, e.target.value as ListingStatus)
+                    }
+                    className="mt-2 bg-[#070707] border border-[#2A2A2A] rounded px-1 py-1 text-[11px] text-[#A0A0A0]"
+                  >
+                    <option value="">New status…</option>
+                    {LISTING_STATUSES.filter((s) => s !== status).map((s) => (
+                      <option key={s} value={s}>
+                        {statusLabel(s, latest.form.listingType)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { EMPTY_FORM, type ListingFormState } from "../lib/listing";
+import { formFieldText, textToFormFields } from "../lib/propertyFields";
+import {
+  mapPropertyImport,
+  type ImportMapping,
+  type ImportableField,
+} from "../lib/propertyImport";
+
+type PropertyImportProps = {
+  form: ListingFormState;
+  onApply: (patch: Partial<ListingFormState>) => void;
+};
+
+type Choice = { apply: boolean; index: number };
+
+const FORMAT_LABELS: Record<ImportMapping["format"], string> = {
+  "reso-json": "RESO JSON record",
+  csv: "CSV row",
+  text: "MLS listing text",
+};
+
+const buttonClass =
+  "text-[11px] px-2 py-1 rounded border border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0] disabled:opacity-50";
+
+/** Paste or upload MLS data, review the field mapping, then fill the form. */
+export default function PropertyImport({ form, onApply }: PropertyImportProps) {
+  const [input, setInput] = useState("");
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [choices, setChoices] = useState<
+    Partial<Record<ImportableField, Choice>>
+  >({});
+  const [error, setError] = useState<string | null>(null);
+
+  // Compared as the form would show them, so "3200" matches "3,200 sq ft".
+  const normalized = (field: ImportableField, value: string) =>
+    formFieldText({ ...form, ...textToFormFields({ [field]: value }) }, field);
+
+  /** Blank while the field still holds its default, e.g. the property type. */
+  const currentText = (field: ImportableField) => {
+    const text = formFieldText(form, field);
+    return text === formFieldText(EMPTY_FORM, field) ? "" : text;
+  };
+
+  const preview = (text = input) => {
+    setError(null);
+    try {
+      const next = mapPropertyImport(text);
+      const initial: typeof choices = {};
+      for (const [key, candidates] of Object.entries(next.fields)) {
+        const field = key as ImportableField;
+        const current = currentText(field);
+        // Don't overwrite something the agent already typed unless asked.
+        initial[field] = {
+          apply: !current || current === normalized(field, candidates[0].value),
+          index: 0,
+        };
+      }
+      setMapping(next);
+      setChoices(initial);
+    } catch (e) {
+      setMapping(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const apply = () => {
+    if (!mapping) return;
+    const text: Partial<Record<ImportableField, string>> = {};
+    for (const [field, choice] of Object.entries(choices)) {
+      const candidates = mapping.fields[field as ImportableField];
+      if (choice?.apply && candidates) {
+        text[field as ImportableField] = candidates[choice.index].value;
+      }
+    }
+    onApply(textToFormFields(text));
+    setMapping(null);
+    setInput("");
+  };
+
+  const fields = mapping
+    ? (Object.keys(mapping.fields) as ImportableField[])
+    : [];
+
+  return (
+    <details className="border border-[#1F1F1F] rounded-xl bg-[#070707]/60 px-3 py-2">
+      <summary className="text-xs uppercase text-[#A0A0A0] cursor-pointer">
+        Import from MLS / RESO
+      </summary>
+
+      <div className="mt-2 space-y-2">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={4}
+          placeholder="Paste a RESO JSON record, a CSV header + row, or MLS listing text"
+          className="w-full bg-[#070707] border border-[#2A2A2A] rounded px-2 py-1 text-xs focus:border-[#F4C96B] outline-none"
+        />
+        <div className="flex gap-2 items-center">
+          <button
+            type="button"
+            onClick={() => preview()}
+            disabled={!input.trim()}
+            className={buttonClass}
+          >
+            Preview mapping
+          </button>
+          <label className={`${buttonClass} cursor-pointer`}>
+            Upload file
+            <input
+              type="file"
+              accept=".json,.csv,.txt,application/json,text/csv,text/plain"
+              className="hidden"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (!file) return;
+                const text = await file.text();
+                setInput(text);
+                preview(text);
+              }}
+            />
+          </label>
+        </div>
+        {error && <p className="text-red-400 text-[11px]">{error}</p>}
+      </div>
+
+      {mapping && (
+        <div className="mt-2 space-y-2 text-[11px]">
+          <p className="text-[#A0A0A0]">
+            Detected {FORMAT_LABELS[mapping.format]}.{" "}
+            {mapping.note && <span>{mapping.note}</span>}
+          </p>
+
+          {fields.length === 0 ? (
+            <p className="text-[#A0A0A0]">No listing fields recognized.</p>
+          ) : (
+            <table className="w-full">
+              <thead className="text-[#A0A0A0] text-left">
+                <tr>
+                  <th className="font-normal">Use</th>
+                  <th className="font-normal">Field</th>
+                  <th className="font-normal">Imported</th>
+                  <th className="font-normal">Current</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map((field) => {
+                  const candidates = mapping.fields[field] ?? [];
+                  const choice = choices[field] ?? { apply: false, index: 0 };
+                  const current = currentText(field);
+                  const value = candidates[choice.index]?.value ?? "";
+                  const conflict =
+                    candidates.length > 1 ||
+                    (!!current && current !== normalized(field, value));
+
+                  return (
+                    <tr key={field} className="align-top">
+                      <td className="pr-2">
+                        <input
+                          type="checkbox"
+                          checked={choice.apply}
+                          onChange={() =>
+                            setChoices((prev) => ({
+                              ...prev,
+                              [field]: { ...choice, apply: !choice.apply },
+                            }))
+                          }
+                        />
+                      </td>
+                      <td className="pr-2 uppercase text-[#A0A0A0] whitespace-nowrap">
+                        {field.replace(/([A-Z])/g, " $1")}
+                        {conflict && (
+                          <span className="ml-1 text-amber-400 normal-case">
+                            ⚠
+                          </span>
+                        )}
+                      </td>
+                      <td className="pr-2">
+                        {candidates.length > 1 ? (
+                          <select
+                            value={choice.index}
+                            onChange={(e) =>
+                              setChoices((prev) => ({
+                                ...prev,
+                                [field]: {
+                                  ...choice,
+                                  index: Number(e.target.value),
+                                },
+                              }))
+                            }
+                            className="bg-[#070707] border border-amber-700/60 rounded px-1 py-0.5 max-w-[12rem]"
+                          >
+                            {candidates.map((c, i) => (
+                              <option key={i} value={i}>
+                                {c.value} ({c.source})
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span title={candidates[0]?.source}>
+                            {value.length > 80
+                              ? `${value.slice(0, 80)}…`
+                              : value}
+                          </span>
+                        )}
+                      </td>
+                      <td className="text-[#A0A0A0]">{current || "—"}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {mapping.unmapped.length > 0 && (
+            <div className="text-[#A0A0A0]">
+              <p className="mb-1">Not mapped ({mapping.unmapped.length}):</p>
+              <ul className="max-h-24 overflow-auto">
+                {mapping.unmapped.map((u, i) => (
+                  <li key={i} className="truncate">
+                    {u.key}: {u.value}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={apply}
+              disabled={!Object.values(choices).some((c) => c?.apply)}
+              className={buttonClass}
+            >
+              Fill form
+            </button>
+            <button
+              type="button"
+              onClick={() => setMapping(null)}
+              className={buttonClass}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,185 @@
+import {
+  applyFairHousingSuggestion,
+  scanFairHousing,
+  type FairHousingRule,
+} from "../lib/fairHousing";
+import { formatPrice, readPrice } from "../lib/format";
+import type { ListingFormState } from "../lib/listing";
+import {
+  LEASE_TERMS,
+  LEASE_TERM_LABELS,
+  PET_POLICIES,
+  PET_POLICY_LABELS,
+  UTILITIES,
+  UTILITY_LABELS,
+  type LeaseTerm,
+  type PetPolicy,
+  type Utility,
+} from "../lib/rental";
+import FairHousingFlags from "./FairHousingFlags";
+
+type RentalFieldsProps = {
+  form: ListingFormState;
+  onChange: (patch: Partial<ListingFormState>) => void;
+  errors: Partial<Record<keyof ListingFormState, string>>;
+  /** Application requirements are screened like the highlights. */
+  fairHousingRules: FairHousingRule[];
+};
+
+const inputClass =
+  "w-full bg-[#070707] border border-[#2A2A2A] rounded-lg px-3 py-2 mt-1 text-sm focus:border-[#F4C96B] outline-none";
+
+const labelClass = "text-xs uppercase text-[#A0A0A0]";
+
+/** Lease terms for rental listings; every field is optional. */
+export default function RentalFields({
+  form,
+  onChange,
+  errors,
+  fairHousingRules,
+}: RentalFieldsProps) {
+  const utilities = form.utilitiesIncluded ?? [];
+  const requirements = form.applicationRequirements ?? "";
+
+  const toggleUtility = (utility: Utility) =>
+    onChange({
+      utilitiesIncluded: utilities.includes(utility)
+        ? utilities.filter((u) => u !== utility)
+        : UTILITIES.filter((u) => u === utility || utilities.includes(u)),
+    });
+
+  const error = (name: keyof ListingFormState) =>
+    errors[name] && (
+      <p className="text-red-400 text-[11px] mt-1">{errors[name]}</p>
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Security Deposit</label>
+          <input
+            name="deposit"
+            value={form.deposit ?? ""}
+            placeholder="e.g. $3,200"
+            onChange={(e) => onChange({ deposit: e.target.value })}
+            className={inputClass}
+          />
+          {error("deposit") ||
+            (form.deposit && readPrice(form.deposit) && (
+              <p className="text-[#A0A0A0] text-[11px] mt-1">
+                Reads as{" "}
+                {formatPrice(form.deposit, form.currency, form.language)}
+              </p>
+            ))}
+        </div>
+        <div>
+          <label className={labelClass}>Available</label>
+          <input
+            name="availableDate"
+            type="date"
+            value={form.availableDate ?? ""}
+            onChange={(e) =>
+              onChange({ availableDate: e.target.value || undefined })
+            }
+            className={inputClass}
+          />
+          {error("availableDate")}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Lease Term</label>
+          <select
+            name="leaseTerm"
+            value={form.leaseTerm ?? ""}
+            onChange={(e) =>
+              onChange({
+                leaseTerm: (e.target.value || undefined) as
+                  | LeaseTerm
+                  | undefined,
+              })
+            }
+            className={inputClass}
+          >
+            <option value="">Not specified</option>
+            {LEASE_TERMS.map((term) => (
+              <option key={term} value={term}>
+                {LEASE_TERM_LABELS[term]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Pets</label>
+          <select
+            name="petPolicy"
+            value={form.petPolicy ?? ""}
+            onChange={(e) =>
+              onChange({
+                petPolicy: (e.target.value || undefined) as
+                  | PetPolicy
+                  | undefined,
+              })
+            }
+            className={inputClass}
+          >
+            <option value="">Not specified</option>
+            {PET_POLICIES.map((policy) => (
+              <option key={policy} value={policy}>
+                {PET_POLICY_LABELS[policy]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Utilities Included</label>
+        <div className="flex gap-1 flex-wrap mt-1">
+          {UTILITIES.map((utility) => (
+            <button
+              key={utility}
+              type="button"
+              onClick={() => toggleUtility(utility)}
+              className={`text-[11px] px-2 py-1 rounded border ${
+                utilities.includes(utility)
+                  ? "border-[#F4C96B] text-[#F4C96B]"
+                  : "border-[#2A2A2A] hover:border-[#F4C96B] text-[#A0A0A0]"
+              }`}
+            >
+              {UTILITY_LABELS[utility]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Application Requirements</label>
+        <textarea
+          name="applicationRequirements"
+          value={requirements}
+          onChange={(e) =>
+            onChange({ applicationRequirements: e.target.value })
+          }
+          rows={2}
+          placeholder="e.g. Income of 3× rent, credit and background check"
+          className={inputClass}
+        />
+        <FairHousingFlags
+          text={requirements}
+          flags={scanFairHousing(requirements, fairHousingRules)}
+          onApply={(flag) =>
+            onChange({
+              applicationRequirements: applyFairHousingSuggestion(
+                requirements,
+                flag
+              ),
+            })
+          }
+        />
+      </div>
+    </div>
+  );
+}
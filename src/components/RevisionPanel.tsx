@@ -0,0 +1,88 @@
+import { useState } from "react";
+import {
+  describeRevision,
+  diffWords,
+  type FieldRevisions,
+} from "../lib/revisions";
+
+type RevisionPanelProps = {
+  revisions: FieldRevisions;
+  formatDate: (iso: string) => string;
+};
+
+const selectClass =
+  "w-full bg-[#070707] border border-[#2A2A2A] rounded px-2 py-1 text-[11px] focus:border-[#F4C96B] outline-none";
+
+/** Side-by-side word diff between any two revisions of one field. */
+export default function RevisionPanel({
+  revisions,
+  formatDate,
+}: RevisionPanelProps) {
+  const { entries, index } = revisions;
+  const [left, setLeft] = useState(Math.max(index - 1, 0));
+  const [right, setRight] = useState(index);
+
+  const a = entries[Math.min(left, entries.length - 1)];
+  const b = entries[Math.min(right, entries.length - 1)];
+  const parts = diffWords(a.text, b.text);
+
+  const options = entries.map((rev, i) => (
+    <option key={rev.id} value={i}>
+      #{i + 1} {describeRevision(rev)} · {formatDate(rev.createdAt)}
+      {i === index ? " (current)" : ""}
+    </option>
+  ));
+
+  return (
+    <div className="border border-[#2A2A2A] rounded-lg p-2 mb-1 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={left}
+          onChange={(e) => setLeft(Number(e.target.value))}
+          className={selectClass}
+        >
+          {options}
+        </select>
+        <select
+          value={right}
+          onChange={(e) => setRight(Number(e.target.value))}
+          className={selectClass}
+        >
+          {options}
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-xs whitespace-pre-wrap">
+        <div className="bg-[#070707] rounded p-2">
+          {parts
+            .filter((p) => p.type !== "added")
+            .map((p, i) => (
+              <span
+                key={i}
+                className={
+                  p.type === "removed"
+                    ? "bg-red-500/25 text-red-200 line-through"
+                    : ""
+                }
+              >
+                {p.text}
+              </span>
+            ))}
+        </div>
+        <div className="bg-[#070707] rounded p-2">
+          {parts
+            .filter((p) => p.type !== "removed")
+            .map((p, i) => (
+              <span
+                key={i}
+                className={
+                  p.type === "added" ? "bg-emerald-500/25 text-emerald-200" : ""
+                }
+              >
+                {p.text}
+              </span>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { useState } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { itemLanguages, itemLocale, type HistoryItem } from "../lib/history";
+import {
+  EMPTY_FORM,
+  type GenerateStreamEvent,
+  type ListingFormState,
+  type ListingOutputs,
+} from "../lib/listing";
+import { DEFAULT_PROMPT_TEMPLATE } from "../lib/promptTemplate";
+import { useListingGeneration } from "./useListingGeneration";
+
+const FORM: ListingFormState = {
+  ...EMPTY_FORM,
+  address: "12 Harbor Ln",
+  price: "$1,250,000",
+  highlights: "Harbor views",
+  channels: ["heading", "mls"],
+};
+
+const OUTPUTS: ListingOutputs = {
+  heading: "Harbor-view colonial",
+  mls: "Three bedrooms by the water.",
+};
+
+const SPANISH: ListingOutputs = {
+  heading: "Colonial con vista al puerto",
+  mls: "Tres recámaras junto al agua.",
+};
+
+const ndjson = (events: GenerateStreamEvent[]) =>
+  events.map((e) => JSON.stringify(e) + "\n").join("");
+
+/** /api/generate/stream streams OUTPUTS; /api/generate answers in Spanish. */
+const stubServer = (
+  stream: (signal: AbortSignal) => Response = () =>
+    new Response(
+      ndjson([
+        { type: "delta", text: JSON.stringify(OUTPUTS) },
+        { type: "done", outputs: OUTPUTS },
+      ])
+    )
+) => {
+  const fetch = vi.fn<typeof globalThis.fetch>(async (url, init) =>
+    url === "/api/generate/stream"
+      ? stream(init!.signal!)
+      : Response.json({ outputs: SPANISH })
+  );
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+};
+
+/** App's state around the hook. */
+const renderGeneration = () => {
+  const onError = vi.fn();
+  const onInvalid = vi.fn();
+  const hook = renderHook(() => {
+    const [output, setOutput] = useState<ListingOutputs | null>(null);
+    const [history, setHistory] = useState<HistoryItem[]>([]);
+    const [selected, setSelected] = useState<string | null>(null);
+    const generation = useListingGeneration({
+      setOutput,
+      setHistory,
+      onSelect: setSelected,
+      onError,
+      onInvalid,
+      template: DEFAULT_PROMPT_TEMPLATE,
+      model: "mock:fixture",
+    });
+    return { output, history, selected, ...generation };
+  });
+  return { ...hook, onError, onInvalid };
+};
+
+describe("useListingGeneration", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("stops at form validation without calling the server", async () => {
+    const fetch = stubServer();
+    const { result, onError, onInvalid } = renderGeneration();
+
+    await act(() => result.current.generate({ ...FORM, highlights: "" }));
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalled();
+    expect(onError).toHaveBeenLastCalledWith(
+      "❌ Fix the highlighted fields before generating."
+    );
+    expect(result.current.loading).toBe(false);
+  });
+
+  it("saves and selects the copy, then adds the extra languages", async () => {
+    const fetch = stubServer();
+    const { result } = renderGeneration();
+
+    await act(() => result.current.generate(FORM, ["en", "es"]));
+
+    expect(result.current.output).toEqual(OUTPUTS);
+    const [saved] = result.current.history;
+    expect(result.current.selected).toBe(saved.id);
+    expect(saved).toMatchObject({
+      form: { address: "12 Harbor Ln" },
+      model: "mock:fixture",
+      templateVersion: DEFAULT_PROMPT_TEMPLATE.version,
+    });
+    expect(itemLanguages(saved)).toEqual(["en", "es"]);
+    expect(itemLocale(saved, "es").outputs).toEqual(SPANISH);
+    expect(JSON.parse(fetch.mock.calls[1][1]?.body as string)).toMatchObject({
+      language: "es",
+    });
+    expect(result.current.pendingLanguages).toEqual([]);
+    expect(result.current.sectionStatus).toBeNull();
+  });
+
+  it("reports a failed generation and saves nothing", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    stubServer(() =>
+      Response.json({ error: "OpenAI quota exceeded" }, { status: 429 })
+    );
+    const { result, onError } = renderGeneration();
+
+    await act(() => result.current.generate(FORM));
+
+    expect(onError).toHaveBeenLastCalledWith(
+      "Generation error: OpenAI quota exceeded"
+    );
+    expect(result.current.history).toEqual([]);
+    expect(result.current.loading).toBe(false);
+  });
+
+  it("keeps a stopped generation's partial copy only when asked", async () => {
+    stubServer(
+      (signal) =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(
+                new TextEncoder().encode(
+                  ndjson([{ type: "delta", text: '{"heading":"Harbor-view' }])
+                )
+              );
+              signal.addEventListener("abort", () =>
+                controller.error(new DOMException("Aborted", "AbortError"))
+              );
+            },
+          })
+        )
+    );
+    const { result } = renderGeneration();
+
+    let running!: Promise<void>;
+    act(() => {
+      running = result.current.generate(FORM);
+    });
+    await vi.waitFor(() =>
+      expect(result.current.output?.heading).toBe("Harbor-view")
+    );
+    await act(async () => {
+      result.current.stop();
+      await running;
+    });
+
+    expect(result.current.stoppedForm).toMatchObject({
+      address: "12 Harbor Ln",
+    });
+    expect(result.current.output).toEqual({ heading: "Harbor-view", mls: "" });
+    expect(result.current.history).toEqual([]);
+
+    act(() => result.current.keepPartial(result.current.output));
+
+    expect(result.current.stoppedForm).toBeNull();
+    expect(itemLocale(result.current.history[0]).outputs).toEqual({
+      heading: "Harbor-view",
+      mls: "",
+    });
+  });
+});
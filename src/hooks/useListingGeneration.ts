@@ -0,0 +1,219 @@
+import { useRef, useState, type Dispatch, type SetStateAction } from "react";
+import {
+  errorMessage,
+  generateListing,
+  streamListing,
+  translateListing,
+} from "../lib/api";
+import { enabledChannelKeys } from "../lib/channels";
+import {
+  addHistoryItem,
+  createHistoryItem,
+  setItemLocale,
+  type HistoryItem,
+} from "../lib/history";
+import {
+  LANGUAGE_LABELS,
+  ListingSchema,
+  type Language,
+  type ListingFormState,
+  type ListingOutputs,
+} from "../lib/listing";
+import type { ModelId } from "../lib/models";
+import type { PartialOutputs } from "../lib/partialOutputs";
+import type { PromptTemplate } from "../lib/promptTemplate";
+
+type ListingGenerationOptions = {
+  setOutput: Dispatch<SetStateAction<ListingOutputs | null>>;
+  setHistory: Dispatch<SetStateAction<HistoryItem[]>>;
+  /** Puts an item (or, with null, fresh copy) on screen in `language`. */
+  onSelect: (id: string | null, language: Language) => void;
+  onError: (message: string | null) => void;
+  /** The form failed validation; its field errors should all show. */
+  onInvalid: () => void;
+  template: PromptTemplate;
+  model?: ModelId;
+};
+
+/**
+ * Streams a listing into `output`, saves it to history, then generates the
+ * extra languages. Also translates saved versions and keeps or discards
+ * copy from a stopped generation.
+ */
+export const useListingGeneration = ({
+  setOutput,
+  setHistory,
+  onSelect,
+  onError,
+  onInvalid,
+  template,
+  model,
+}: ListingGenerationOptions) => {
+  const [loading, setLoading] = useState(false);
+  const [sectionStatus, setSectionStatus] = useState<
+    PartialOutputs["status"] | null
+  >(null);
+  /** The form behind partial copy on screen after Stop. */
+  const [stoppedForm, setStoppedForm] = useState<ListingFormState | null>(null);
+  /** Locales being generated or translated for the selected item. */
+  const [pendingLanguages, setPendingLanguages] = useState<Language[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const addToHistory = (
+    formData: ListingFormState,
+    outputs: ListingOutputs,
+    { select = true } = {}
+  ) => {
+    const item = createHistoryItem(formData, outputs, {
+      templateVersion: template.version,
+      model,
+    });
+    setHistory((prev) => addHistoryItem(prev, item));
+    if (select) onSelect(item.id, formData.language);
+    return item.id;
+  };
+
+  const setLocale = (id: string, language: Language, outputs: ListingOutputs) =>
+    setHistory((prev) => setItemLocale(prev, id, language, outputs));
+
+  const settleLanguage = (language: Language) =>
+    setPendingLanguages((prev) => prev.filter((l) => l !== language));
+
+  /** Generates the extra target languages from scratch, in parallel. */
+  const generateLocales = async (
+    id: string,
+    data: ListingFormState,
+    targetLanguages: Language[],
+    signal: AbortSignal
+  ) => {
+    const languages = targetLanguages.filter((l) => l !== data.language);
+    if (languages.length === 0) return;
+    setPendingLanguages(languages);
+
+    const results = await Promise.allSettled(
+      languages.map(async (language) => {
+        try {
+          setLocale(
+            id,
+            language,
+            await generateListing(
+              { ...data, language },
+              { signal, template, model }
+            )
+          );
+        } finally {
+          settleLanguage(language);
+        }
+      })
+    );
+
+    const failed = languages.filter((_, i) => results[i].status === "rejected");
+    if (failed.length > 0 && !signal.aborted) {
+      const names = failed.map((l) => LANGUAGE_LABELS[l]).join(", ");
+      onError(`Could not generate: ${names}.`);
+    }
+  };
+
+  const generate = async (
+    form: ListingFormState,
+    targetLanguages: Language[] = []
+  ) => {
+    setLoading(true);
+    setOutput(null);
+    onError(null);
+    setStoppedForm(null);
+    onSelect(null, form.language);
+
+    const parsed = ListingSchema.safeParse(form);
+    if (!parsed.success) {
+      onInvalid();
+      onError("❌ Fix the highlighted fields before generating.");
+      setLoading(false);
+      return;
+    }
+
+    const data = parsed.data;
+    // Every enabled section shows as "waiting…" until its text streams in.
+    const emptyOutputs = Object.fromEntries(
+      enabledChannelKeys(data.channels).map((k) => [k, ""])
+    );
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let received = false;
+
+    try {
+      const json = await streamListing(data, {
+        signal: controller.signal,
+        template,
+        model,
+        onPartial: ({ values, status }) => {
+          received = Object.keys(values).length > 0;
+          setOutput({ ...emptyOutputs, ...values });
+          setSectionStatus(status);
+        },
+      });
+
+      setOutput(json);
+      const id = addToHistory(data, json);
+      await generateLocales(id, data, targetLanguages, controller.signal);
+    } catch (e) {
+      if (controller.signal.aborted) {
+        // Partial copy is only saved if the user chooses to keep it.
+        if (received) setStoppedForm(data);
+        else setOutput(null);
+      } else {
+        console.error(e);
+        onError("Generation error: " + errorMessage(e));
+      }
+    }
+
+    abortRef.current = null;
+    setSectionStatus(null);
+    setLoading(false);
+  };
+
+  const stop = () => abortRef.current?.abort();
+
+  const keepPartial = (outputs: ListingOutputs | null) => {
+    if (outputs && stoppedForm) addToHistory(stoppedForm, outputs);
+    setStoppedForm(null);
+  };
+
+  const discardPartial = () => {
+    setOutput(null);
+    setStoppedForm(null);
+  };
+
+  /** Localizes a saved version rather than regenerating from the form. */
+  const translate = async (
+    id: string,
+    outputs: ListingOutputs,
+    from: Language,
+    to: Language
+  ) => {
+    setPendingLanguages((prev) => [...prev, to]);
+    onError(null);
+
+    try {
+      setLocale(id, to, await translateListing({ outputs, from, to, model }));
+    } catch (e) {
+      console.error(e);
+      onError("Translate error: " + errorMessage(e));
+    }
+
+    settleLanguage(to);
+  };
+
+  return {
+    loading,
+    sectionStatus,
+    stoppedForm,
+    pendingLanguages,
+    generate,
+    stop,
+    keepPartial,
+    discardPartial,
+    translate,
+    addToHistory,
+  };
+};
@@ -0,0 +1,145 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { useState } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createHistoryItem,
+  itemLocale,
+  setItemLocale,
+  type HistoryItem,
+} from "../lib/history";
+import { EMPTY_FORM, type ListingOutputs } from "../lib/listing";
+import { DEFAULT_PROMPT_TEMPLATE } from "../lib/promptTemplate";
+import { useSectionRewrite } from "./useSectionRewrite";
+
+const ES: ListingOutputs = {
+  heading: "Colonial con vista al puerto",
+  mls: "Tres recámaras junto al agua.",
+};
+
+const item = (address: string) =>
+  createHistoryItem(
+    { ...EMPTY_FORM, address },
+    { heading: "Harbor-view colonial", mls: "Three bedrooms by the water." }
+  );
+
+/** App's state around the hook: the Spanish locale of one item on screen. */
+const renderRewrite = ({ selected = true, generating = false } = {}) => {
+  const base = item("12 Harbor Ln");
+  const [withSpanish] = setItemLocale([base], base.id, "es", ES);
+  const other = item("3 Elm St");
+  const onError = vi.fn();
+
+  const hook = renderHook(() => {
+    const [output, setOutput] = useState<ListingOutputs | null>(ES);
+    const [history, setHistory] = useState<HistoryItem[]>([withSpanish, other]);
+    const rewrite = useSectionRewrite({
+      output,
+      setOutput,
+      setHistory,
+      selectedHistoryId: selected ? withSpanish.id : null,
+      language: "es",
+      template: DEFAULT_PROMPT_TEMPLATE,
+      model: "mock:fixture",
+      generating,
+      onError,
+    });
+    return { output, history, ...rewrite };
+  });
+  return { ...hook, original: withSpanish, other, onError };
+};
+
+const respond = (body: unknown, status = 200) => {
+  const fetch = vi.fn<typeof globalThis.fetch>(async () =>
+    Response.json(body, { status })
+  );
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+};
+
+describe("useSectionRewrite", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("updates the output on screen and the selected item's locale", async () => {
+    const fetch = respond({ text: "Tres recámaras, a un paso del agua." });
+    const { result, original, other } = renderRewrite();
+
+    await act(() => result.current.rewriteSection("mls", "Shorter"));
+
+    expect(JSON.parse(fetch.mock.calls[0][1]?.body as string)).toEqual({
+      field: "mls",
+      instruction: "Shorter",
+      text: ES.mls,
+      system: DEFAULT_PROMPT_TEMPLATE.rewriteSystem,
+      model: "mock:fixture",
+    });
+    const rewritten = { ...ES, mls: "Tres recámaras, a un paso del agua." };
+    expect(result.current.output).toEqual(rewritten);
+
+    const [saved, untouched] = result.current.history;
+    expect(saved.id).toBe(original.id);
+    expect(itemLocale(saved, "es").outputs).toEqual(rewritten);
+    expect(
+      itemLocale(saved, "es").revisions.mls?.entries.map((r) => r.kind)
+    ).toEqual(["generated", "rewrite"]);
+    expect(itemLocale(saved, "en")).toEqual(itemLocale(original, "en"));
+    expect(untouched).toBe(other);
+    expect(result.current.rewriteLoadingKey).toBeNull();
+  });
+
+  it("only changes the output when nothing is saved yet", async () => {
+    respond({ text: "Shorter." });
+    const { result, original } = renderRewrite({ selected: false });
+
+    await act(() => result.current.rewriteSection("heading", "Shorter"));
+
+    expect(result.current.output?.heading).toBe("Shorter.");
+    expect(result.current.history[0]).toBe(original);
+  });
+
+  it("sends one request per field while a rewrite is in flight", async () => {
+    const fetch = respond({ text: "Shorter." });
+    const { result } = renderRewrite();
+
+    await act(() =>
+      Promise.all([
+        result.current.rewriteSection("mls", "Shorter"),
+        result.current.rewriteSection("mls", "Warmer"),
+        result.current.rewriteSection("heading", "Shorter"),
+      ])
+    );
+
+    expect(
+      fetch.mock.calls.map(([, init]) => JSON.parse(init?.body as string))
+    ).toMatchObject([
+      { field: "mls", instruction: "Shorter" },
+      { field: "heading" },
+    ]);
+  });
+
+  it("waits for a running generation", async () => {
+    const fetch = respond({ text: "Shorter." });
+    const { result } = renderRewrite({ generating: true });
+
+    await act(() => result.current.rewriteSection("mls", "Shorter"));
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(result.current.output).toEqual(ES);
+  });
+
+  it("reports server errors and keeps the copy", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    respond({ error: "Rate limited" }, 429);
+    const { result, original, onError } = renderRewrite();
+
+    await act(() => result.current.rewriteSection("mls", "Shorter"));
+
+    expect(onError).toHaveBeenLastCalledWith("Rewrite error: Rate limited");
+    expect(result.current.output).toEqual(ES);
+    expect(result.current.history[0]).toBe(original);
+    expect(result.current.isRewriting("mls")).toBe(false);
+  });
+});
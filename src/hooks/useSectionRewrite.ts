@@ -0,0 +1,97 @@
+import { useRef, useState, type Dispatch, type SetStateAction } from "react";
+import { errorMessage, rewriteListingSection } from "../lib/api";
+import type { ChannelKey } from "../lib/channels";
+import {
+  editItemField,
+  withOutputField,
+  type HistoryItem,
+} from "../lib/history";
+import type { Language, ListingOutputs } from "../lib/listing";
+import type { ModelId } from "../lib/models";
+import type { PromptTemplate } from "../lib/promptTemplate";
+import type { RevisionSource } from "../lib/revisions";
+
+type SectionRewriteOptions = {
+  output: ListingOutputs | null;
+  setOutput: Dispatch<SetStateAction<ListingOutputs | null>>;
+  setHistory: Dispatch<SetStateAction<HistoryItem[]>>;
+  /** The saved item on screen; unsaved copy only changes `output`. */
+  selectedHistoryId: string | null;
+  /** The locale on screen, which gets the new revision. */
+  language: Language;
+  template: PromptTemplate;
+  model?: ModelId;
+  /** True while a generation is streaming into `output`. */
+  generating: boolean;
+  onError: (message: string | null) => void;
+};
+
+/**
+ * Section edits shown on screen and recorded as revisions of the selected
+ * item, plus model rewrites of one section at a time.
+ */
+export const useSectionRewrite = ({
+  output,
+  setOutput,
+  setHistory,
+  selectedHistoryId,
+  language,
+  template,
+  model,
+  generating,
+  onError,
+}: SectionRewriteOptions) => {
+  /** "field:instruction" of the rewrite in flight, for the spinners. */
+  const [rewriteLoadingKey, setRewriteLoadingKey] = useState<string | null>(
+    null
+  );
+  // State lags a render behind, so a double click could still get through.
+  const inFlight = useRef(new Set<ChannelKey>());
+
+  const updateOutputField = (
+    field: ChannelKey,
+    text: string,
+    source: RevisionSource
+  ) => {
+    setOutput((prev) => prev && withOutputField(prev, field, text));
+    const id = selectedHistoryId;
+    if (id) {
+      setHistory((prev) =>
+        editItemField(prev, id, language, field, text, source)
+      );
+    }
+  };
+
+  const isRewriting = (field: ChannelKey) =>
+    !!rewriteLoadingKey?.startsWith(`${field}:`);
+
+  const rewriteSection = async (field: ChannelKey, instruction: string) => {
+    const current = output?.[field];
+    if (!current) return;
+    // One request per field; the later response would overwrite the other.
+    if (generating || inFlight.current.has(field)) return;
+
+    inFlight.current.add(field);
+    setRewriteLoadingKey(`${field}:${instruction}`);
+    onError(null);
+
+    try {
+      const text = await rewriteListingSection({
+        field,
+        instruction,
+        text: current,
+        system: template.rewriteSystem,
+        model,
+      });
+      updateOutputField(field, text, { kind: "rewrite", instruction });
+    } catch (e) {
+      console.error(e);
+      onError("Rewrite error: " + errorMessage(e));
+    }
+
+    inFlight.current.delete(field);
+    setRewriteLoadingKey(null);
+  };
+
+  return { rewriteLoadingKey, isRewriting, rewriteSection, updateOutputField };
+};
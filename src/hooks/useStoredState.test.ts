@@ -0,0 +1,33 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import { useStoredState } from "./useStoredState";
+
+const KEY = "luxlist-test";
+
+describe("useStoredState", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("starts from the initial value and persists updates", () => {
+    const { result } = renderHook(() => useStoredState(KEY, ["a"]));
+    expect(result.current[0]).toEqual(["a"]);
+
+    act(() => result.current[1]((prev) => [...prev, "b"]));
+    expect(result.current[0]).toEqual(["a", "b"]);
+    expect(JSON.parse(localStorage.getItem(KEY)!)).toEqual(["a", "b"]);
+  });
+
+  it("restores what was saved", () => {
+    localStorage.setItem(KEY, JSON.stringify({ active: 3 }));
+    const { result } = renderHook(() => useStoredState(KEY, { active: 1 }));
+    expect(result.current[0]).toEqual({ active: 3 });
+  });
+
+  it("falls back when the entry is unreadable", () => {
+    localStorage.setItem(KEY, "{not json");
+    const { result } = renderHook(() => useStoredState(KEY, 7));
+    expect(result.current[0]).toBe(7);
+  });
+});
@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+
+const readStored = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * useState backed by a localStorage JSON entry. Unreadable entries fall back
+ * to `initial`; failed writes (quota, private mode) are ignored.
+ */
+export const useStoredState = <T>(key: string, initial: T) => {
+  const [value, setValue] = useState(() => readStored(key, initial));
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      // ignore
+    }
+  }, [key, value]);
+
+  return [value, setValue] as const;
+};
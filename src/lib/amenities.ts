@@ -0,0 +1,141 @@
+import type { ListingFormState } from "./listing";
+
+// -----------------------------
+// TAXONOMY
+// -----------------------------
+export type AmenityCategory = {
+  key: string;
+  label: string;
+  /** Amenity keys are unique across categories. */
+  items: Record<string, string>;
+};
+
+export const AMENITY_CATEGORIES = [
+  {
+    key: "kitchen",
+    label: "Kitchen",
+    items: {
+      quartzCounters: "Quartz countertops",
+      graniteCounters: "Granite countertops",
+      kitchenIsland: "Kitchen island",
+      stainlessAppliances: "Stainless steel appliances",
+      gasRange: "Gas range",
+      walkInPantry: "Walk-in pantry",
+      customCabinetry: "Custom cabinetry",
+      wineFridge: "Wine fridge",
+    },
+  },
+  {
+    key: "baths",
+    label: "Baths",
+    items: {
+      primaryEnSuite: "Primary en-suite",
+      doubleVanity: "Double vanity",
+      soakingTub: "Soaking tub",
+      walkInShower: "Walk-in shower",
+      heatedFloors: "Heated floors",
+    },
+  },
+  {
+    key: "outdoor",
+    label: "Outdoor",
+    items: {
+      pool: "Pool",
+      spa: "Hot tub / spa",
+      patio: "Patio",
+      deck: "Deck",
+      outdoorKitchen: "Outdoor kitchen",
+      fencedYard: "Fenced yard",
+      landscapedGarden: "Landscaped garden",
+    },
+  },
+  {
+    key: "community",
+    label: "HOA & community",
+    items: {
+      gatedCommunity: "Gated community",
+      communityPool: "Community pool",
+      fitnessCenter: "Fitness center",
+      clubhouse: "Clubhouse",
+      concierge: "Doorman / concierge",
+      walkingTrails: "Walking trails",
+      hoaLandscaping: "HOA-maintained grounds",
+    },
+  },
+  {
+    key: "energy",
+    label: "Energy & smart home",
+    items: {
+      solarPanels: "Solar panels",
+      evCharger: "EV charger",
+      smartThermostat: "Smart thermostat",
+      smartHome: "Smart home system",
+      energyStar: "ENERGY STAR appliances",
+      doublePaneWindows: "Double-pane windows",
+      tanklessWaterHeater: "Tankless water heater",
+    },
+  },
+  {
+    key: "views",
+    label: "Views",
+    items: {
+      oceanView: "Ocean view",
+      mountainView: "Mountain view",
+      cityView: "City view",
+      waterView: "Lake / water view",
+      golfView: "Golf course view",
+    },
+  },
+] as const satisfies readonly AmenityCategory[];
+
+type Category = (typeof AMENITY_CATEGORIES)[number];
+
+export type AmenityCategoryKey = Category["key"];
+
+export type Amenity = {
+  [C in Category as C["key"]]: keyof C["items"];
+}[AmenityCategoryKey];
+
+export const AMENITY_KEYS = AMENITY_CATEGORIES.flatMap(
+  (c) => Object.keys(c.items) as Amenity[]
+) as [Amenity, ...Amenity[]];
+
+export const AMENITY_LABELS = Object.fromEntries(
+  AMENITY_CATEGORIES.flatMap((c) => Object.entries(c.items))
+) as Record<Amenity, string>;
+
+/** Suggestions for the renovation area; any text is accepted. */
+export const RENOVATION_AREAS = [
+  "Kitchen",
+  "Bathrooms",
+  "Roof",
+  "HVAC",
+  "Windows",
+  "Flooring",
+  "Electrical",
+  "Plumbing",
+  "Exterior paint",
+];
+
+// -----------------------------
+// PROMPT TEXT
+// -----------------------------
+/** One line per category with picks, e.g. "Kitchen: Gas range, Pool". */
+export const amenityLines = (amenities: readonly Amenity[] = []) =>
+  AMENITY_CATEGORIES.flatMap((c) => {
+    const picked = (Object.keys(c.items) as Amenity[]).filter((a) =>
+      amenities.includes(a)
+    );
+    return picked.length
+      ? [`${c.label}: ${picked.map((a) => AMENITY_LABELS[a]).join(", ")}`]
+      : [];
+  });
+
+/** "Kitchen (2022), Roof (2019)", newest first. */
+export const formatRenovations = (
+  renovations: ListingFormState["renovations"] = []
+) =>
+  [...renovations]
+    .sort((a, b) => b.year - a.year)
+    .map((r) => `${r.area} (${r.year})`)
+    .join(", ");
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { translateListing } from "./api";
+
+describe("translateListing", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("leaves out channels a stopped generation never filled", async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () =>
+      Response.json({
+        outputs: { heading: "Colonial con vista al puerto" },
+      })
+    );
+    vi.stubGlobal("fetch", fetch);
+
+    const outputs = await translateListing({
+      outputs: { heading: "Harbor-view colonial", mls: "", tiktok: " " },
+      from: "en",
+      to: "es",
+    });
+
+    expect(JSON.parse(fetch.mock.calls[0][1]?.body as string)).toEqual({
+      outputs: { heading: "Harbor-view colonial" },
+      from: "en",
+      to: "es",
+    });
+    expect(outputs).toEqual({ heading: "Colonial con vista al puerto" });
+  });
+
+  it("refuses a version with no copy at all", async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>();
+    vi.stubGlobal("fetch", fetch);
+    await expect(
+      translateListing({ outputs: { mls: "" }, from: "en", to: "fr" })
+    ).rejects.toThrow(/no copy to translate/);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,197 @@
+import { enabledChannelKeys, type ChannelKey } from "./channels";
+import { parsePartialOutputs, type PartialOutputs } from "./partialOutputs";
+import {
+  describeIssues,
+  outputsSchemaFor,
+  type GenerateStreamEvent,
+  type ListingFormState,
+  type ListingOutputs,
+  type RewriteRequest,
+  type TranslateRequest,
+} from "./listing";
+import type { ModelId, ModelsResponse } from "./models";
+import {
+  FeatureSuggestionsSchema,
+  type Photo,
+  type VisionProvider,
+} from "./photos";
+import type { PromptTemplate } from "./promptTemplate";
+
+// -----------------------------
+// LISTING API CLIENT
+// -----------------------------
+/** Carries the HTTP status so callers can tell rate limits from failures. */
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/** A caught value as banner text. */
+export const errorMessage = (e: unknown) =>
+  e instanceof Error ? e.message : String(e);
+
+const postJson = async <T>(
+  url: string,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<T> => {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new ApiError(
+      json.error || `Request failed (${res.status})`,
+      res.status
+    );
+  }
+  return json as T;
+};
+
+// Never let malformed copy reach the output panel or history.
+const validateOutputs = (
+  outputs: unknown,
+  keys: readonly ChannelKey[]
+): ListingOutputs => {
+  const parsed = outputsSchemaFor(keys).safeParse(outputs);
+  if (!parsed.success) {
+    throw new Error(
+      `Listing copy is incomplete (${describeIssues(parsed.error)}).`
+    );
+  }
+  return parsed.data;
+};
+
+export const fetchModels = async (): Promise<ModelsResponse> => {
+  const res = await fetch("/api/models");
+  if (!res.ok) {
+    throw new ApiError(`Request failed (${res.status})`, res.status);
+  }
+  return res.json();
+};
+
+type GenerateOptions = {
+  signal?: AbortSignal;
+  /** Prompt template version to render; the server default otherwise. */
+  template?: PromptTemplate;
+  model?: ModelId;
+};
+
+export const generateListing = async (
+  form: ListingFormState,
+  { signal, template, model }: GenerateOptions = {}
+) => {
+  const { outputs } = await postJson<{ outputs: unknown }>(
+    "/api/generate",
+    { ...form, template, model },
+    signal
+  );
+  return validateOutputs(outputs, enabledChannelKeys(form.channels));
+};
+
+type StreamOptions = GenerateOptions & {
+  onPartial: (partial: PartialOutputs) => void;
+};
+
+/** Like generateListing, but reports each section as its text arrives. */
+export const streamListing = async (
+  form: ListingFormState,
+  { onPartial, signal, template, model }: StreamOptions
+) => {
+  const keys = enabledChannelKeys(form.channels);
+  const res = await fetch("/api/generate/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...form, template, model }),
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    const json = await res.json().catch(() => ({}));
+    throw new ApiError(
+      json.error || `Request failed (${res.status})`,
+      res.status
+    );
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let pending = "";
+  let raw = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    pending += value;
+
+    let newline: number;
+    while ((newline = pending.indexOf("\n")) >= 0) {
+      const line = pending.slice(0, newline).trim();
+      pending = pending.slice(newline + 1);
+      if (!line) continue;
+
+      const event = JSON.parse(line) as GenerateStreamEvent;
+      switch (event.type) {
+        case "delta":
+          raw += event.text;
+          onPartial(parsePartialOutputs(raw, keys));
+          break;
+        case "retry":
+          raw = "";
+          onPartial(parsePartialOutputs(raw, keys));
+          break;
+        case "done":
+          return validateOutputs(event.outputs, keys);
+        case "error":
+          throw new Error(event.error);
+      }
+    }
+  }
+
+  throw new Error("Generation stream ended unexpectedly.");
+};
+
+export const rewriteListingSection = async (request: RewriteRequest) => {
+  const { text } = await postJson<{ text: string }>("/api/rewrite", request);
+  return text;
+};
+
+/**
+ * A kept partial holds "" for channels that never streamed in; those are
+ * left out, as the server rejects empty copy.
+ */
+export const translateListing = async (request: TranslateRequest) => {
+  const keys = (Object.keys(request.outputs) as ChannelKey[]).filter((key) =>
+    request.outputs[key]?.trim()
+  );
+  if (keys.length === 0) throw new Error("There's no copy to translate yet.");
+  const { outputs } = await postJson<{ outputs: unknown }>("/api/translate", {
+    ...request,
+    outputs: Object.fromEntries(keys.map((key) => [key, request.outputs[key]])),
+  });
+  return validateOutputs(outputs, keys);
+};
+
+export const analyzePhotos = async (photos: Photo[], signal?: AbortSignal) => {
+  const json = await postJson<unknown>(
+    "/api/photos/analyze",
+    { photos },
+    signal
+  );
+  const parsed = FeatureSuggestionsSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(
+      `Photo analysis is malformed (${describeIssues(parsed.error)}).`
+    );
+  }
+  return parsed.data.features;
+};
+
+/** Photo analysis through the server, which picks the vision model. */
+export const apiVisionProvider: VisionProvider = {
+  suggestFeatures: analyzePhotos,
+};
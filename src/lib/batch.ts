@@ -0,0 +1,180 @@
+import { ApiError } from "./api";
+import { CHANNELS } from "./channels";
+import { csvToRecords, toCsv } from "./csv";
+import {
+  EMPTY_FORM,
+  ListingSchema,
+  describeIssues,
+  type ListingFormState,
+  type ListingOutputs,
+} from "./listing";
+import { PROPERTY_TYPE_LABELS, formatPropertyType } from "./propertyFields";
+import { recordToFormFields } from "./propertyImport";
+
+// -----------------------------
+// TYPES
+// -----------------------------
+export type BatchSettings = Pick<
+  ListingFormState,
+  "tone" | "length" | "language" | "channels"
+>;
+
+export type BatchRowStatus =
+  | "invalid"
+  | "queued"
+  | "running"
+  | "retrying"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export type BatchRow = {
+  /** 1-based data row number, as shown in a spreadsheet minus the header. */
+  row: number;
+  label: string;
+  form?: ListingFormState;
+  status: BatchRowStatus;
+  attempts: number;
+  outputs?: ListingOutputs;
+  error?: string;
+};
+
+export const BATCH_CONCURRENCY = 3;
+export const BATCH_MAX_RETRIES = 4;
+const RETRY_BASE_MS = 2000;
+
+// -----------------------------
+// CSV → ROWS
+// -----------------------------
+const SETTING_KEYS = ["tone", "length", "language"] as const;
+
+/** Maps and validates every CSV row; invalid rows never reach the queue. */
+export const parseBatchCsv = (
+  text: string,
+  defaults: BatchSettings
+): BatchRow[] =>
+  csvToRecords(text).map((record, i) => {
+    // Per-row tone/length/language override the panel defaults; zod
+    // rejects values outside the enums.
+    const settings: Record<string, string> = {};
+    for (const [key, value] of Object.entries(record)) {
+      const norm = key.trim().toLowerCase();
+      if ((SETTING_KEYS as readonly string[]).includes(norm) && value) {
+        settings[norm] = value.toLowerCase();
+      }
+    }
+
+    const fields = recordToFormFields(record);
+    const parsed = ListingSchema.safeParse({
+      ...EMPTY_FORM,
+      ...defaults,
+      ...fields,
+      ...settings,
+    });
+    const label =
+      fields.address ||
+      (fields.propertyType && PROPERTY_TYPE_LABELS[fields.propertyType]) ||
+      `Row ${i + 1}`;
+
+    return parsed.success
+      ? { row: i + 1, label, form: parsed.data, status: "queued", attempts: 0 }
+      : {
+          row: i + 1,
+          label,
+          status: "invalid",
+          attempts: 0,
+          error: describeIssues(parsed.error),
+        };
+  });
+
+// -----------------------------
+// QUEUE
+// -----------------------------
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+export const isRateLimitError = (e: unknown) =>
+  e instanceof ApiError && e.status === 429;
+
+/**
+ * Retries only on rate limits, with exponential backoff and jitter. Any other
+ * error fails the row straight away.
+ */
+export const withRateLimitRetry = async <T>(
+  task: () => Promise<T>,
+  {
+    onRetry,
+    signal,
+  }: { onRetry?: (attempt: number) => void; signal?: AbortSignal } = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (!isRateLimitError(e) || attempt >= BATCH_MAX_RETRIES) throw e;
+      if (signal?.aborted) throw e;
+      onRetry?.(attempt + 1);
+      await sleep(RETRY_BASE_MS * 2 ** attempt * (1 + Math.random()), signal);
+    }
+  }
+};
+
+/** Runs `worker` over `items` with at most `concurrency` in flight. */
+export const runQueue = async <T>(
+  items: T[],
+  worker: (item: T) => Promise<void>,
+  { concurrency, signal }: { concurrency: number; signal?: AbortSignal }
+) => {
+  let next = 0;
+  const lanes = Array.from(
+    { length: Math.min(concurrency, items.length) },
+    async () => {
+      while (next < items.length && !signal?.aborted) {
+        await worker(items[next++]);
+      }
+    }
+  );
+  await Promise.all(lanes);
+};
+
+// -----------------------------
+// EXPORT
+// -----------------------------
+/** One column per channel that any row generated. */
+export const batchToCsv = (rows: BatchRow[]) => {
+  const keys = CHANNELS.filter((c) =>
+    rows.some((r) => r.outputs?.[c.key] !== undefined)
+  ).map((c) => c.key);
+
+  return toCsv(
+    ["row", "status", "address", "propertyType", "price", ...keys, "error"],
+    rows.map((r) => [
+      String(r.row),
+      r.status,
+      r.form?.address ?? "",
+      r.form ? formatPropertyType(r.form) : "",
+      r.form?.price ?? "",
+      ...keys.map((k) => r.outputs?.[k] ?? ""),
+      r.error ?? "",
+    ])
+  );
+};
+
+export const batchToJson = (rows: BatchRow[]) =>
+  JSON.stringify(
+    rows.map(({ row, status, form, outputs, error }) => ({
+      row,
+      status,
+      form,
+      outputs,
+      error,
+    })),
+    null,
+    2
+  );
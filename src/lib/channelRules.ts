@@ -0,0 +1,191 @@
+import {
+  listingChannels,
+  type ChannelKey,
+  type ChannelSpec,
+  type ForbiddenContent,
+  type Range,
+} from "./channels";
+import {
+  lengthMap,
+  type Language,
+  type ListingFormState,
+  type ListingType,
+} from "./listing";
+
+// -----------------------------
+// CHANNEL SPECS
+// -----------------------------
+const midpoint = ([min, max]: Range) => (min + max) / 2;
+
+const roundTo5 = (n: number) => Math.max(5, Math.round(n / 5) * 5);
+
+/**
+ * Registry specs with word ranges scaled to the Length setting. The prompt is
+ * built from these too, so the checks and the model's instructions agree.
+ */
+export const channelSpecs = (
+  length: ListingFormState["length"] = "medium",
+  listingType: ListingType = "sale"
+): Record<ChannelKey, ChannelSpec> => {
+  const factor = midpoint(lengthMap[length]) / midpoint(lengthMap.medium);
+
+  return Object.fromEntries(
+    listingChannels(listingType).map(({ key, spec, scaled }) => {
+      if (!scaled || !spec.words || factor === 1) return [key, spec];
+      const [min, max] = spec.words;
+      return [
+        key,
+        { ...spec, words: [roundTo5(min * factor), roundTo5(max * factor)] },
+      ];
+    })
+  ) as Record<ChannelKey, ChannelSpec>;
+};
+
+// -----------------------------
+// COUNTERS & PATTERNS
+// -----------------------------
+const EMOJI_RE = /\p{Extended_Pictographic}/gu;
+const HASHTAG_RE = /#[\p{L}\p{N}_]+/gu;
+const BULLET_RE = /^\s*(?:[-•*–]|\d+[.)])\s+\S/;
+
+const FORBIDDEN: Record<ForbiddenContent, { label: string; re: RegExp }> = {
+  url: {
+    label: "links",
+    re: /\bhttps?:\/\/\S+|\bwww\.\S+|(?<![@\w.-])\b[\w-]+\.(?:com|net|org|io|co|us|realtor)\b/i,
+  },
+  email: { label: "email addresses", re: /\b[\w.+-]+@[\w-]+\.[\w.-]+\b/ },
+  phone: {
+    label: "phone numbers",
+    re: /(?:\+?1[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/,
+  },
+  mls: {
+    label: "MLS numbers",
+    re: /\bMLS\s*(?:#|No\.?|number)?\s*:?\s*[A-Z]{0,3}\d{5,}\b/i,
+  },
+  handle: { label: "user handles", re: /(?:^|\s)@[\w.]{2,}/ },
+};
+
+export const countWords = (text: string) =>
+  text
+    .replace(HASHTAG_RE, " ")
+    .split(/\s+/)
+    .filter((w) => /[\p{L}\p{N}]/u.test(w)).length;
+
+export const countEmojis = (text: string) =>
+  (text.match(EMOJI_RE) ?? []).length;
+
+export const countHashtags = (text: string) =>
+  (text.match(HASHTAG_RE) ?? []).length;
+
+export const countBullets = (text: string) =>
+  text.split("\n").filter((line) => BULLET_RE.test(line)).length;
+
+export const countSentences = (text: string) =>
+  text
+    .replace(HASHTAG_RE, " ")
+    .split(/[.!?]+(?:\s|$)/)
+    .filter((s) => /[\p{L}\p{N}]/u.test(s)).length;
+
+// -----------------------------
+// CHECKS
+// -----------------------------
+export type RuleResult = {
+  id: string;
+  label: string;
+  passed: boolean;
+  /** What was actually found, shown on failing badges. */
+  actual?: string;
+  /** Sent back through rewriteSection when the rule fails. */
+  fix: string;
+};
+
+const rangeRule = (
+  id: string,
+  noun: string,
+  count: number,
+  [min, max]: Range
+): RuleResult => ({
+  id,
+  label: `${min}–${max} ${noun}`,
+  passed: count >= min && count <= max,
+  actual: `${count} ${noun}`,
+  fix: `Use ${min}–${max} ${noun} (currently ${count}).`,
+});
+
+/** Not space-delimited, so word counts say nothing about length. */
+const UNSPACED_LANGUAGES: Language[] = ["zh"];
+
+export const checkChannel = (
+  field: ChannelKey,
+  text: string,
+  length: ListingFormState["length"] = "medium",
+  language: Language = "en",
+  listingType: ListingType = "sale"
+): RuleResult[] => {
+  const spec = channelSpecs(length, listingType)[field];
+  const results: RuleResult[] = [];
+
+  if (spec.words && !UNSPACED_LANGUAGES.includes(language)) {
+    results.push(rangeRule("words", "words", countWords(text), spec.words));
+  }
+  if (spec.sentences) {
+    results.push(
+      rangeRule("sentences", "sentences", countSentences(text), spec.sentences)
+    );
+  }
+  if (spec.hashtags) {
+    results.push(
+      rangeRule("hashtags", "hashtags", countHashtags(text), spec.hashtags)
+    );
+  }
+  if (spec.bullets) {
+    results.push(
+      rangeRule("bullets", "bullets", countBullets(text), spec.bullets)
+    );
+  }
+  if (spec.maxChars !== undefined) {
+    const count = [...text].length;
+    results.push({
+      id: "chars",
+      label: `≤${spec.maxChars} characters`,
+      passed: count <= spec.maxChars,
+      actual: `${count} characters`,
+      fix: `Keep it to ${spec.maxChars} characters including spaces (currently ${count}).`,
+    });
+  }
+  if (spec.maxEmojis !== undefined) {
+    const count = countEmojis(text);
+    results.push({
+      id: "emojis",
+      label: spec.maxEmojis === 0 ? "No emojis" : `≤${spec.maxEmojis} emojis`,
+      passed: count <= spec.maxEmojis,
+      actual: `${count} emojis`,
+      fix:
+        spec.maxEmojis === 0
+          ? "Remove all emojis."
+          : `Use at most ${spec.maxEmojis} emojis (currently ${count}).`,
+    });
+  }
+  for (const kind of spec.forbid ?? []) {
+    const { label, re } = FORBIDDEN[kind];
+    const match = text.match(re);
+    results.push({
+      id: kind,
+      label: `No ${label}`,
+      passed: !match,
+      actual: match ? `found "${match[0].trim()}"` : undefined,
+      fix: `Remove all ${label}${match ? ` (e.g. "${match[0].trim()}")` : ""}.`,
+    });
+  }
+
+  return results;
+};
+
+/** Builds a rewrite instruction that targets only the failed rules. */
+export const buildFixInstruction = (results: RuleResult[]) => {
+  const failed = results.filter((r) => !r.passed);
+  return [
+    "Fix ONLY these rule violations and keep everything else as close to the original as possible:",
+    ...failed.map((r) => `- ${r.fix}`),
+  ].join("\n");
+};
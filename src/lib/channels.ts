@@ -0,0 +1,422 @@
+import type { ListingType } from "./listing";
+
+// -----------------------------
+// TYPES
+// -----------------------------
+export type Range = readonly [min: number, max: number];
+
+export type ForbiddenContent = "url" | "email" | "phone" | "mls" | "handle";
+
+export type ChannelSpec = {
+  words?: Range;
+  sentences?: Range;
+  hashtags?: Range;
+  bullets?: Range;
+  maxEmojis?: number;
+  maxChars?: number;
+  forbid?: readonly ForbiddenContent[];
+};
+
+export type RewriteAction = {
+  label: string;
+  instruction: string;
+  /** Appends the investor calculator's figures when the form has them. */
+  citesInvestorFigures?: boolean;
+};
+
+/** Overrides used when the listing is for rent. */
+export type ChannelVariant = {
+  label?: string;
+  prompt?: string;
+  spec?: ChannelSpec;
+  rewrites?: readonly RewriteAction[];
+};
+
+export type ChannelDefinition<K extends string = string> = {
+  key: K;
+  label: string;
+  /** Prompt block; `{{words}}`, `{{maxChars}}` etc. render from `spec`. */
+  prompt: string;
+  /** Rules at "medium" length, shared by the prompt and the checks. */
+  spec: ChannelSpec;
+  /** Word range follows the Length setting. */
+  scaled?: boolean;
+  /** One-click rewrite buttons shown on the section. */
+  rewrites: readonly RewriteAction[];
+  /** Textarea height in rows. */
+  rows: number;
+  /** History titles and exports rely on it, so it can't be turned off. */
+  required?: boolean;
+  /** Only generated when the agent ticks it. */
+  offByDefault?: boolean;
+  /** Rental copy, e.g. a rental portal instead of Zillow's sale page. */
+  rental?: ChannelVariant;
+};
+
+// -----------------------------
+// REGISTRY
+// -----------------------------
+const REGISTRY = [
+  {
+    key: "heading",
+    label: "Heading",
+    prompt: `heading:
+- A short headline ({{words}} words) in the requested tone
+- No emojis`,
+    spec: { words: [4, 8], maxEmojis: 0 },
+    rewrites: [],
+    rows: 2,
+    required: true,
+  },
+  {
+    key: "mls",
+    label: "MLS",
+    prompt: `mls:
+- Professional MLS-style paragraph
+- {{words}} words
+- Full property description
+- Include layout, features, materials, upgrades, PARKING, LOT SIZE, and YEAR BUILT where provided
+- NO links, NO MLS numbers, NO contact info`,
+    spec: { words: [120, 160], forbid: ["url", "email", "phone", "mls"] },
+    scaled: true,
+    rewrites: [
+      {
+        label: "Shorter",
+        instruction: "Make this shorter while keeping key details.",
+      },
+      {
+        label: "Longer",
+        instruction: "Make this slightly longer and more descriptive.",
+      },
+      {
+        label: "More Luxury",
+        instruction:
+          "Make this feel more luxury and high-end without adding fluff.",
+      },
+      {
+        label: "More Casual",
+        instruction: "Make the tone slightly more casual and conversational.",
+      },
+      {
+        label: "Investor",
+        instruction:
+          "Make this more appealing to investors while staying compliant.",
+        citesInvestorFigures: true,
+      },
+    ],
+    rows: 5,
+    rental: {
+      label: "MLS Rental",
+      prompt: `mls:
+- Professional MLS rental listing paragraph
+- {{words}} words
+- Full description of the unit: layout, features, upgrades, PARKING and included utilities where provided
+- State the lease terms given (deposit, lease length, availability, pet policy) without adding any
+- NO links, NO MLS numbers, NO contact info`,
+    },
+  },
+  {
+    key: "zillow",
+    label: "Zillow / Portal",
+    prompt: `zillow:
+- Friendly, lifestyle-focused description
+- {{words}} words
+- More emotional, less formal
+- Include some lifestyle context (near parks, schools, shopping) when provided
+- NO links`,
+    spec: { words: [100, 140], forbid: ["url"] },
+    scaled: true,
+    rewrites: [
+      {
+        label: "More Lifestyle",
+        instruction: "Make this slightly more lifestyle-focused and emotional.",
+      },
+      {
+        label: "Shorter",
+        instruction: "Tighten this up and make it a bit shorter.",
+      },
+    ],
+    rows: 5,
+    rental: {
+      label: "Rental Portal",
+      prompt: `zillow:
+- Rental portal listing (Zillow Rentals, Apartments.com)
+- {{words}} words
+- Open with the monthly rent, beds, baths and availability, then describe daily life in the home
+- Include lease term, pet policy and included utilities when provided
+- NO links`,
+      rewrites: [
+        {
+          label: "More Lifestyle",
+          instruction:
+            "Make this slightly more lifestyle-focused without dropping any lease terms.",
+        },
+        {
+          label: "Shorter",
+          instruction: "Tighten this up and make it a bit shorter.",
+        },
+      ],
+    },
+  },
+  {
+    key: "social",
+    label: "Social Caption",
+    prompt: `social:
+- Instagram-style caption
+- {{sentences}} sentences
+- Add {{hashtags}} real estate hashtags
+- MAX {{maxEmojis}} emojis
+- NO links`,
+    spec: {
+      sentences: [1, 3],
+      hashtags: [5, 8],
+      maxEmojis: 2,
+      forbid: ["url"],
+    },
+    rewrites: [
+      {
+        label: "Stronger Hook",
+        instruction:
+          "Punch this up with a stronger hook and more scroll-stopping language, but no extra emojis.",
+      },
+    ],
+    rows: 4,
+  },
+  {
+    key: "email",
+    label: "Email Version",
+    prompt: `email:
+- Professional summary paragraph
+- {{words}} words
+- Written as if an agent is describing the home via email
+- NO email addresses`,
+    spec: { words: [60, 100], forbid: ["email"] },
+    scaled: true,
+    rewrites: [
+      {
+        label: "Tighter",
+        instruction:
+          "Make this slightly more concise and direct while remaining professional.",
+      },
+    ],
+    rows: 4,
+  },
+  {
+    key: "tiktok",
+    label: "TikTok Script",
+    prompt: `tiktok:
+- Hook + {{bullets}} bullet points + call-to-action
+- MAX {{maxEmojis}} emojis total
+- NO TikTok links
+- NO user handles
+- Short, punchy, and high-energy`,
+    spec: { bullets: [4, 6], maxEmojis: 2, forbid: ["url", "handle"] },
+    rewrites: [
+      {
+        label: "More Punch",
+        instruction:
+          "Make this punchier and more hook-driven for a 20–30 second real estate TikTok.",
+      },
+    ],
+    rows: 4,
+  },
+  {
+    key: "facebook",
+    label: "Facebook Marketplace",
+    prompt: `facebook:
+- Facebook Marketplace post
+- {{words}} words
+- Key facts (price, beds, baths, size) in the first line, then short feature lines
+- MAX {{maxEmojis}} emojis
+- NO links, NO phone numbers`,
+    spec: { words: [60, 120], maxEmojis: 3, forbid: ["url", "phone"] },
+    scaled: true,
+    rewrites: [
+      {
+        label: "More Scannable",
+        instruction:
+          "Make this easier to scan on a phone: short lines, key facts first.",
+      },
+    ],
+    rows: 4,
+    offByDefault: true,
+    rental: {
+      label: "Facebook Rental",
+      prompt: `facebook:
+- Facebook Marketplace rental post
+- {{words}} words
+- Key facts (monthly rent, beds, baths, available date) in the first line, then short lines for lease terms and features
+- MAX {{maxEmojis}} emojis
+- NO links, NO phone numbers`,
+    },
+  },
+  {
+    key: "youtube",
+    label: "YouTube Description",
+    prompt: `youtube:
+- Description for a property tour video
+- Open with one line summarizing the home, then describe the tour
+- {{words}} words
+- End with {{hashtags}} hashtags
+- NO links`,
+    spec: { words: [100, 150], hashtags: [3, 5], forbid: ["url"] },
+    scaled: true,
+    rewrites: [
+      {
+        label: "Search Friendly",
+        instruction:
+          "Work in phrases buyers would search for, without keyword stuffing.",
+      },
+    ],
+    rows: 5,
+    offByDefault: true,
+  },
+  {
+    key: "openHouse",
+    label: "Open House",
+    prompt: `openHouse:
+- Open house announcement inviting buyers to tour
+- {{words}} words
+- Use [DATE] and [TIME] placeholders; do not invent a schedule
+- NO links, NO email addresses`,
+    spec: { words: [40, 80], forbid: ["url", "email"] },
+    rewrites: [
+      {
+        label: "More Inviting",
+        instruction: "Make this warmer and more inviting without adding facts.",
+      },
+    ],
+    rows: 4,
+    offByDefault: true,
+    rental: {
+      label: "Showing",
+      prompt: `openHouse:
+- Announcement of an open showing for prospective tenants
+- {{words}} words
+- Use [DATE] and [TIME] placeholders; do not invent a schedule
+- Mention the available date when provided
+- NO links, NO email addresses`,
+    },
+  },
+  {
+    key: "statusUpdate",
+    label: "Just Sold / Price Reduced",
+    prompt: `statusUpdate:
+- Social post announcing the listing status: JUST SOLD when sold, PRICE REDUCED when reduced, otherwise the current status (e.g. COMING SOON, UNDER CONTRACT)
+- {{sentences}} sentences
+- Add {{hashtags}} hashtags
+- MAX {{maxEmojis}} emojis
+- NO links`,
+    spec: {
+      sentences: [1, 3],
+      hashtags: [2, 4],
+      maxEmojis: 2,
+      forbid: ["url"],
+    },
+    rewrites: [
+      {
+        label: "More Urgent",
+        instruction: "Add a little urgency without sounding pushy.",
+      },
+    ],
+    rows: 3,
+    offByDefault: true,
+    rental: {
+      label: "Just Leased / Rent Reduced",
+      prompt: `statusUpdate:
+- Social post announcing the rental status: JUST LEASED when leased, RENT REDUCED when reduced, otherwise the current status (e.g. COMING SOON, APPLICATION PENDING)
+- {{sentences}} sentences
+- Add {{hashtags}} hashtags
+- MAX {{maxEmojis}} emojis
+- NO links`,
+    },
+  },
+  {
+    key: "printAd",
+    label: "Print Ad",
+    prompt: `printAd:
+- Newspaper / magazine classified ad
+- At most {{maxChars}} characters including spaces
+- Standard abbreviations are fine (BR, BA, sq ft)
+- NO emojis, NO hashtags, NO links`,
+    spec: { maxChars: 200, maxEmojis: 0, forbid: ["url"] },
+    rewrites: [
+      {
+        label: "Tighter",
+        instruction:
+          "Cut this to the essentials, keeping price, beds, baths and the best feature.",
+      },
+    ],
+    rows: 3,
+    offByDefault: true,
+    rental: {
+      label: "Classified Rental Ad",
+      prompt: `printAd:
+- Newspaper classified "For Rent" ad
+- At most {{maxChars}} characters including spaces
+- Lead with the monthly rent; standard abbreviations are fine (BR, BA, mo, avail)
+- NO emojis, NO hashtags, NO links`,
+      rewrites: [
+        {
+          label: "Tighter",
+          instruction:
+            "Cut this to the essentials, keeping rent, beds, baths and the available date.",
+        },
+      ],
+    },
+  },
+] as const satisfies readonly ChannelDefinition[];
+
+export type ChannelKey = (typeof REGISTRY)[number]["key"];
+
+/** Every channel, in display order. */
+export const CHANNELS: readonly ChannelDefinition<ChannelKey>[] = REGISTRY;
+
+export const CHANNEL_KEYS = CHANNELS.map((c) => c.key) as [
+  ChannelKey,
+  ...ChannelKey[],
+];
+
+// -----------------------------
+// LOOKUPS
+// -----------------------------
+const BY_KEY = Object.fromEntries(CHANNELS.map((c) => [c.key, c])) as Record<
+  ChannelKey,
+  ChannelDefinition<ChannelKey>
+>;
+
+export const getChannel = (key: ChannelKey) => BY_KEY[key];
+
+/** The channel with its rental overrides applied for rental listings. */
+export const channelFor = (
+  key: ChannelKey,
+  listingType: ListingType = "sale"
+): ChannelDefinition<ChannelKey> => {
+  const channel = BY_KEY[key];
+  if (listingType !== "rental" || !channel.rental) return channel;
+  return { ...channel, ...channel.rental };
+};
+
+/** Every channel as labeled for the listing type, in display order. */
+export const listingChannels = (listingType: ListingType = "sale") =>
+  CHANNEL_KEYS.map((key) => channelFor(key, listingType));
+
+export const DEFAULT_CHANNEL_KEYS = CHANNELS.filter(
+  (c) => !c.offByDefault
+).map((c) => c.key);
+
+/** Channels to generate, in display order; required ones are always in. */
+export const enabledChannels = (
+  keys: readonly ChannelKey[] = DEFAULT_CHANNEL_KEYS
+) =>
+  CHANNELS.filter((c) => c.required || keys.includes(c.key));
+
+export const enabledChannelKeys = (keys?: readonly ChannelKey[]) =>
+  enabledChannels(keys).map((c) => c.key);
+
+/** Channels that have text in `outputs`, in display order. */
+export const outputChannels = (
+  outputs: Partial<Record<ChannelKey, string>>,
+  listingType: ListingType = "sale"
+) =>
+  listingChannels(listingType).filter((c) => outputs[c.key] !== undefined);
@@ -0,0 +1,142 @@
+import { AMENITY_CATEGORIES, type AmenityCategoryKey } from "./amenities";
+import type { ListingFormState } from "./listing";
+
+// -----------------------------
+// CHECKS
+// -----------------------------
+type CompletenessCheck = {
+  /** Relative importance for MLS copy. */
+  weight: number;
+  hint: string;
+  done: (form: ListingFormState) => boolean;
+  /** Skipped when it makes no sense, e.g. bedrooms on land. */
+  applies?: (form: ListingFormState) => boolean;
+};
+
+const isBuilding = (form: ListingFormState) => form.propertyType !== "land";
+
+const isHome = (form: ListingFormState) =>
+  form.propertyType !== "land" && form.propertyType !== "commercial";
+
+const hasCategory = (form: ListingFormState, key: AmenityCategoryKey) => {
+  const items = Object.keys(
+    AMENITY_CATEGORIES.find((c) => c.key === key)!.items
+  );
+  return (form.amenities ?? []).some((a) => items.includes(a));
+};
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const CHECKS: CompletenessCheck[] = [
+  {
+    weight: 2,
+    hint: "Add the address so the copy can name the location.",
+    done: (f) => !!f.address?.trim(),
+  },
+  {
+    weight: 2,
+    hint: "Add the price.",
+    done: (f) => !!f.price?.trim(),
+  },
+  {
+    weight: 1,
+    hint: "Add the number of bedrooms.",
+    done: (f) => f.beds !== undefined,
+    applies: isHome,
+  },
+  {
+    weight: 1,
+    hint: "Add the number of bathrooms.",
+    done: (f) => f.fullBaths !== undefined,
+    applies: isHome,
+  },
+  {
+    weight: 2,
+    hint: "Add the living area — buyers filter by it.",
+    done: (f) => f.livingArea !== undefined,
+    applies: isBuilding,
+  },
+  {
+    weight: 1,
+    hint: "Add the lot size.",
+    done: (f) => f.lotSize !== undefined,
+    applies: (f) => f.propertyType !== "condo",
+  },
+  {
+    weight: 1,
+    hint: "Add the year built.",
+    done: (f) => f.yearBuilt !== undefined,
+    applies: isBuilding,
+  },
+  {
+    weight: 1,
+    hint: "Describe the parking.",
+    done: (f) => !!f.parking?.trim(),
+    applies: isBuilding,
+  },
+  {
+    weight: 1,
+    hint: "Name the neighborhood — buyers search by it.",
+    done: (f) => !!f.neighborhood?.trim(),
+  },
+  {
+    weight: 2,
+    hint: "Pick kitchen features; MLS copy leans on finishes.",
+    done: (f) => hasCategory(f, "kitchen"),
+    applies: isHome,
+  },
+  {
+    weight: 1,
+    hint: "Pick bath features.",
+    done: (f) => hasCategory(f, "baths"),
+    applies: isHome,
+  },
+  {
+    weight: 1,
+    hint: "Pick outdoor features.",
+    done: (f) => hasCategory(f, "outdoor"),
+  },
+  {
+    weight: 1,
+    hint: "Pick views or community amenities.",
+    done: (f) => hasCategory(f, "views") || hasCategory(f, "community"),
+  },
+  {
+    weight: 1,
+    hint: "Pick energy or smart-home features.",
+    done: (f) => hasCategory(f, "energy"),
+    applies: isBuilding,
+  },
+  {
+    weight: 2,
+    hint: "Add recent renovations with the year.",
+    done: (f) => (f.renovations ?? []).length > 0,
+    applies: isBuilding,
+  },
+  {
+    weight: 2,
+    hint: "Describe materials, upgrades or the story in highlights.",
+    done: (f) => wordCount(f.highlights) >= 15,
+  },
+];
+
+// -----------------------------
+// SCORE
+// -----------------------------
+export type Completeness = {
+  /** 0–100. */
+  percent: number;
+  /** What's missing, most valuable first. */
+  hints: string[];
+};
+
+export const listingCompleteness = (form: ListingFormState): Completeness => {
+  const checks = CHECKS.filter((c) => c.applies?.(form) ?? true);
+  const total = checks.reduce((sum, c) => sum + c.weight, 0);
+  const missing = checks.filter((c) => !c.done(form));
+  const lost = missing.reduce((sum, c) => sum + c.weight, 0);
+  return {
+    percent: Math.round(((total - lost) / total) * 100),
+    hints: [...missing].sort((a, b) => b.weight - a.weight).map((c) => c.hint),
+  };
+};
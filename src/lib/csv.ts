@@ -0,0 +1,60 @@
+// -----------------------------
+// CSV (RFC 4180)
+// -----------------------------
+
+/** Parses CSV text into rows of cells, honoring quoted commas and newlines. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+};
+
+/** Turns a header row plus data rows into one object per row. */
+export const csvToRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  return rows.map((cells) =>
+    Object.fromEntries(keys.map((k, i) => [k, (cells[i] ?? "").trim()]))
+  );
+};
+
+const escapeCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (header: string[], rows: string[][]) =>
+  [header, ...rows].map((r) => r.map(escapeCell).join(",")).join("\r\n");
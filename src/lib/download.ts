@@ -0,0 +1,13 @@
+/** Saves generated content as a file without any server round-trip. */
+export const downloadFile = (
+  filename: string,
+  content: BlobPart,
+  type = "application/json"
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
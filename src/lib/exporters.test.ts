@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  docxFacts,
+  flyerUnsupportedReason,
+  toFlyerPdf,
+  toHtml,
+  toMarkdown,
+} from "./exporters";
+import { formatPrice } from "./format";
+import { createHistoryItem, setItemLocale } from "./history";
+import { EMPTY_FORM } from "./listing";
+
+const ITEM = createHistoryItem(
+  { ...EMPTY_FORM, address: "12 Harbor Ln", price: "1250000" },
+  { heading: "Harbor-view colonial", mls: "Three bedrooms by the water." }
+);
+
+const [BILINGUAL] = setItemLocale([ITEM], ITEM.id, "zh", {
+  heading: "海港景观殖民风格住宅",
+  mls: "三间卧室，临水而居。",
+});
+
+describe("non-Latin listings", () => {
+  it("keeps Chinese copy in text exports", () => {
+    expect(toMarkdown(BILINGUAL, "zh")).toContain("# 海港景观殖民风格住宅");
+    expect(toHtml(BILINGUAL, "zh")).toContain("<p>三间卧室，临水而居。</p>");
+  });
+
+  it("refuses a Chinese PDF flyer instead of drawing blank boxes", async () => {
+    expect(flyerUnsupportedReason(BILINGUAL, "zh")).toMatch(/Chinese font/);
+    await expect(toFlyerPdf(BILINGUAL, "zh")).rejects.toThrow(/Chinese font/);
+  });
+
+  it("refuses characters outside the flyer font in any language", () => {
+    const item = {
+      ...ITEM,
+      form: { ...ITEM.form, address: "東京都港区 1-2-3" },
+    };
+    expect(flyerUnsupportedReason(item)).toMatch(/can't draw/);
+  });
+
+  it("allows Latin listings, accents and all", () => {
+    expect(flyerUnsupportedReason(BILINGUAL, "en")).toBeUndefined();
+    const item = {
+      ...ITEM,
+      form: { ...ITEM.form, address: "Rua São João, Lisboa — 2ª" },
+    };
+    expect(flyerUnsupportedReason(item)).toBeUndefined();
+  });
+});
+
+describe("DOCX facts", () => {
+  const RENTAL = createHistoryItem(
+    { ...EMPTY_FORM, listingType: "rental", price: "3200", beds: 2 },
+    { heading: "Bright two-bedroom", mls: "Two bedrooms near the park." }
+  );
+
+  it("labels and formats the price in the export's language", () => {
+    expect(docxFacts(ITEM, "es")).toContainEqual([
+      "Precio",
+      formatPrice("1250000", "USD", "es"),
+    ]);
+    expect(docxFacts(ITEM, "en")).toContainEqual(["Price", "$1,250,000"]);
+  });
+
+  it("calls a rental's price the rent, per month", () => {
+    expect(docxFacts(RENTAL)).toContainEqual(["Rent", "$3,200/mo"]);
+    expect(docxFacts(RENTAL, "zh").map(([label]) => label)).toEqual([
+      "物业类型",
+      "租金",
+      "卧室",
+    ]);
+  });
+});
@@ -0,0 +1,456 @@
+import { AMENITY_LABELS, formatRenovations } from "./amenities";
+import { formatPrice } from "./format";
+import { itemLocale, type HistoryItem } from "./history";
+import { outputChannels } from "./channels";
+import type { Language, ListingOutputs, ListingType } from "./listing";
+import { formFieldText, formatArea, formatBaths } from "./propertyFields";
+
+// -----------------------------
+// SHARED
+// -----------------------------
+/** Non-primary languages get a suffix, e.g. "123-main-st-es.pdf". */
+export const exportFileName = (
+  item: HistoryItem,
+  ext: string,
+  language: Language = item.form.language
+) => {
+  const { outputs } = itemLocale(item, language);
+  const suffix = language === item.form.language ? "" : `-${language}`;
+  const base = (item.form.address || outputs.heading || "listing")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60);
+  return `${base || "listing"}${suffix}.${ext}`;
+};
+
+/** Every generated channel except the heading, in display order. */
+const bodyChannels = (outputs: ListingOutputs, listingType?: ListingType) =>
+  outputChannels(outputs, listingType)
+    .filter((c) => c.key !== "heading")
+    .map((c) => ({ label: c.label, text: outputs[c.key] ?? "" }));
+
+/** The price in the export's language; rents always read per month. */
+const exportPrice = ({ form }: HistoryItem, language: Language) =>
+  formatPrice(
+    form.price,
+    form.currency,
+    language,
+    form.listingType === "rental"
+  );
+
+type FactLabel =
+  | "propertyType"
+  | "address"
+  | "price"
+  | "rent"
+  | "beds"
+  | "baths"
+  | "livingArea"
+  | "lotSize"
+  | "yearBuilt"
+  | "parking"
+  | "neighborhood"
+  | "features"
+  | "renovations"
+  | "facts";
+
+/** Headings for the facts, in the export's language. */
+const FACT_LABELS: Record<Language, Record<FactLabel, string>> = {
+  en: {
+    propertyType: "Property type",
+    address: "Address",
+    price: "Price",
+    rent: "Rent",
+    beds: "Beds",
+    baths: "Baths",
+    livingArea: "Living area",
+    lotSize: "Lot size",
+    yearBuilt: "Year built",
+    parking: "Parking",
+    neighborhood: "Neighborhood",
+    features: "Features",
+    renovations: "Renovations",
+    facts: "Facts",
+  },
+  es: {
+    propertyType: "Tipo de propiedad",
+    address: "Dirección",
+    price: "Precio",
+    rent: "Renta",
+    beds: "Recámaras",
+    baths: "Baños",
+    livingArea: "Superficie habitable",
+    lotSize: "Terreno",
+    yearBuilt: "Año de construcción",
+    parking: "Estacionamiento",
+    neighborhood: "Colonia",
+    features: "Características",
+    renovations: "Renovaciones",
+    facts: "Datos",
+  },
+  pt: {
+    propertyType: "Tipo de imóvel",
+    address: "Endereço",
+    price: "Preço",
+    rent: "Aluguel",
+    beds: "Quartos",
+    baths: "Banheiros",
+    livingArea: "Área útil",
+    lotSize: "Terreno",
+    yearBuilt: "Ano de construção",
+    parking: "Vagas",
+    neighborhood: "Bairro",
+    features: "Características",
+    renovations: "Reformas",
+    facts: "Dados",
+  },
+  fr: {
+    propertyType: "Type de bien",
+    address: "Adresse",
+    price: "Prix",
+    rent: "Loyer",
+    beds: "Chambres",
+    baths: "Salles de bain",
+    livingArea: "Surface habitable",
+    lotSize: "Terrain",
+    yearBuilt: "Année de construction",
+    parking: "Stationnement",
+    neighborhood: "Quartier",
+    features: "Équipements",
+    renovations: "Rénovations",
+    facts: "Caractéristiques",
+  },
+  zh: {
+    propertyType: "物业类型",
+    address: "地址",
+    price: "价格",
+    rent: "租金",
+    beds: "卧室",
+    baths: "浴室",
+    livingArea: "居住面积",
+    lotSize: "占地面积",
+    yearBuilt: "建造年份",
+    parking: "停车",
+    neighborhood: "社区",
+    features: "设施",
+    renovations: "翻新",
+    facts: "概况",
+  },
+};
+
+/** "Rent" for rentals, "Price" otherwise, in the export's language. */
+const priceLabel = ({ form }: HistoryItem, language: Language) =>
+  FACT_LABELS[language][form.listingType === "rental" ? "rent" : "price"];
+
+/** "4 beds · 3 baths · 2,400 sq ft" from whatever facts the form has. */
+export const propertyFacts = ({ form }: HistoryItem) =>
+  [
+    form.beds !== undefined && `${form.beds} beds`,
+    formatBaths(form) && `${formatBaths(form)} baths`,
+    formatArea(form.livingArea, form.livingAreaUnit),
+    form.lotSize !== undefined &&
+      `${formatArea(form.lotSize, form.lotSizeUnit)} lot`,
+    form.yearBuilt !== undefined && `Built ${form.yearBuilt}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+// -----------------------------
+// MARKDOWN / HTML
+// -----------------------------
+export const toMarkdown = (
+  item: HistoryItem,
+  language: Language = item.form.language
+) => {
+  const { form } = item;
+  const { outputs } = itemLocale(item, language);
+  const labels = FACT_LABELS[language];
+  const meta = [
+    form.address && `**${labels.address}:** ${form.address}`,
+    form.price &&
+      `**${priceLabel(item, language)}:** ${exportPrice(item, language)}`,
+    propertyFacts(item) && `**${labels.facts}:** ${propertyFacts(item)}`,
+  ].filter(Boolean);
+
+  return [
+    `# ${outputs.heading}`,
+    meta.join("  \n"),
+    ...bodyChannels(outputs, form.listingType).map(
+      ({ label, text }) => `## ${label}\n\n${text}`
+    ),
+  ]
+    .filter(Boolean)
+    .join("\n\n")
+    .concat("\n");
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const paragraphs = (text: string) =>
+  text
+    .split(/\n{2,}/)
+    .map((p) => `<p>${escapeHtml(p).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+
+export const toHtml = (
+  item: HistoryItem,
+  language: Language = item.form.language
+) => {
+  const { form } = item;
+  const { outputs } = itemLocale(item, language);
+  const sections = bodyChannels(outputs, form.listingType)
+    .map(
+      ({ label, text }) => `<section>
+<h2>${escapeHtml(label)}</h2>
+${paragraphs(text)}
+</section>`
+    )
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="${language}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(outputs.heading ?? "")}</title>
+<style>
+body { font-family: Georgia, serif; max-width: 720px; margin: 40px auto; color: #1a1a1a; line-height: 1.5; }
+h1 { margin-bottom: 4px; }
+.meta { color: #666; margin-bottom: 24px; }
+h2 { font-size: 14px; text-transform: uppercase; letter-spacing: .08em; color: #8a6d1f; border-bottom: 1px solid #eee; padding-bottom: 4px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(outputs.heading ?? "")}</h1>
+<p class="meta">${escapeHtml(
+    [
+      form.address,
+      form.price && exportPrice(item, language),
+      propertyFacts(item),
+    ]
+      .filter(Boolean)
+      .join(" — ")
+  )}</p>
+${sections}
+</body>
+</html>
+`;
+};
+
+// -----------------------------
+// PDF FLYER
+// -----------------------------
+/**
+ * What jsPDF's built-in Helvetica can draw: its WinAnsi encoding, i.e.
+ * Latin-1 plus a few typographic marks. The narrow spaces are swapped out.
+ */
+const PDF_FONT_CHARS =
+  /^[\t\n\r\u0020-\u007e\u00a0-\u00ff\u0152\u0153\u0160\u0161\u0178\u017d\u017e\u0192\u02c6\u02dc\u2013\u2014\u2018-\u201e\u2020-\u2022\u2026\u2030\u2039\u203a\u202f\u20ac\u2122]*$/;
+
+/** MLS copy reads best on paper; fall back to whatever else was generated. */
+const flyerCopy = (outputs: ListingOutputs, listingType?: ListingType) =>
+  outputs.mls ?? bodyChannels(outputs, listingType)[0]?.text ?? "";
+
+/**
+ * Why the PDF flyer can't render this locale, if it can't. The flyer has no
+ * embedded fonts, so Chinese (or any text outside Latin-1) would come out
+ * as blank boxes.
+ */
+export const flyerUnsupportedReason = (
+  item: HistoryItem,
+  language: Language = item.form.language
+) => {
+  if (language === "zh") {
+    return "The PDF flyer has no Chinese font yet; export HTML or DOCX instead.";
+  }
+  const { form } = item;
+  const { outputs } = itemLocale(item, language);
+  const text = [
+    outputs.heading,
+    form.address,
+    form.neighborhood,
+    propertyFacts(item),
+    flyerCopy(outputs, form.listingType),
+  ].join("\n");
+  return PDF_FONT_CHARS.test(text)
+    ? undefined
+    : "The PDF flyer's font can't draw some characters in this listing; export HTML or DOCX instead.";
+};
+
+/** One-page letter flyer: heading, price, facts, then the MLS copy. */
+export const toFlyerPdf = async (
+  item: HistoryItem,
+  language: Language = item.form.language
+) => {
+  const unsupported = flyerUnsupportedReason(item, language);
+  if (unsupported) throw new Error(unsupported);
+
+  const { jsPDF } = await import("jspdf");
+  const { form } = item;
+  const { outputs } = itemLocale(item, language);
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const margin = 54;
+  const textWidth = width - margin * 2;
+
+  doc.setFillColor(7, 7, 7);
+  doc.rect(0, 0, width, 150, "F");
+  doc.setTextColor(244, 201, 107);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(26);
+  const headingLines = doc.splitTextToSize(outputs.heading ?? "", textWidth);
+  doc.text(headingLines.slice(0, 2), margin, 70);
+
+  doc.setTextColor(245, 245, 245);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(12);
+  if (form.address) doc.text(form.address, margin, 128);
+
+  let y = 195;
+  doc.setTextColor(26, 26, 26);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(30);
+  // The standard PDF fonts lack the narrow spaces some locales group with.
+  const price = form.price
+    ? exportPrice(item, language)
+    : form.listingType === "rental"
+      ? "Rent on request"
+      : "Price on request";
+  doc.text(price.replace(/[\u00a0\u202f]/g, " "), margin, y);
+
+  const facts = propertyFacts(item);
+  if (facts) {
+    y += 28;
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(13);
+    doc.setTextColor(90, 90, 90);
+    doc.text(facts, margin, y);
+  }
+
+  y += 22;
+  doc.setDrawColor(244, 201, 107);
+  doc.setLineWidth(1.5);
+  doc.line(margin, y, width - margin, y);
+
+  y += 30;
+  doc.setTextColor(26, 26, 26);
+  doc.setFontSize(11.5);
+  const body = doc.splitTextToSize(
+    flyerCopy(outputs, form.listingType),
+    textWidth
+  );
+  const maxLines = Math.floor((height - 80 - y) / 16);
+  doc.text(body.slice(0, maxLines), margin, y, { lineHeightFactor: 1.4 });
+
+  if (form.neighborhood) {
+    doc.setFontSize(10);
+    doc.setTextColor(138, 109, 31);
+    doc.text(form.neighborhood.toUpperCase(), margin, height - 48);
+  }
+
+  return doc.output("blob");
+};
+
+// -----------------------------
+// DOCX
+// -----------------------------
+/** Label and value rows for the DOCX facts table; empty facts are left out. */
+export const docxFacts = (
+  item: HistoryItem,
+  language: Language = item.form.language
+): [string, string][] => {
+  const { form } = item;
+  const labels = FACT_LABELS[language];
+  const rows: [string, string | undefined][] = [
+    [labels.propertyType, formFieldText(form, "propertyType")],
+    [labels.address, form.address],
+    [priceLabel(item, language), form.price && exportPrice(item, language)],
+    [labels.beds, formFieldText(form, "beds")],
+    [labels.baths, formFieldText(form, "baths")],
+    [labels.livingArea, formFieldText(form, "livingArea")],
+    [labels.lotSize, formFieldText(form, "lotSize")],
+    [labels.yearBuilt, formFieldText(form, "yearBuilt")],
+    [labels.parking, form.parking],
+    [labels.neighborhood, form.neighborhood],
+    [
+      labels.features,
+      (form.amenities ?? []).map((a) => AMENITY_LABELS[a]).join(", "),
+    ],
+    [labels.renovations, formatRenovations(form.renovations)],
+  ];
+  return rows.filter((row): row is [string, string] => !!row[1]);
+};
+
+/** Agent paperwork: property facts table followed by every channel. */
+export const toDocx = async (
+  item: HistoryItem,
+  language: Language = item.form.language
+) => {
+  const {
+    Document,
+    HeadingLevel,
+    Packer,
+    Paragraph,
+    Table,
+    TableCell,
+    TableRow,
+    TextRun,
+    WidthType,
+  } = await import("docx");
+  const { form } = item;
+  const { outputs } = itemLocale(item, language);
+
+  const table = new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: docxFacts(item, language).map(
+      ([label, value]) =>
+        new TableRow({
+          children: [
+            new TableCell({
+              width: { size: 30, type: WidthType.PERCENTAGE },
+              children: [
+                new Paragraph({
+                  children: [new TextRun({ text: label, bold: true })],
+                }),
+              ],
+            }),
+            new TableCell({
+              children: [new Paragraph(value)],
+            }),
+          ],
+        })
+    ),
+  });
+
+  const channelSections = bodyChannels(outputs, form.listingType).flatMap(
+    ({ label, text }) => [
+      new Paragraph({ text: label, heading: HeadingLevel.HEADING_2 }),
+      ...text.split(/\n/).map((line) => new Paragraph(line)),
+    ]
+  );
+
+  const doc = new Document({
+    creator: "LuxList AI",
+    title: outputs.heading ?? "",
+    sections: [
+      {
+        children: [
+          new Paragraph({
+            text: outputs.heading ?? "",
+            heading: HeadingLevel.TITLE,
+          }),
+          table,
+          ...channelSections,
+        ],
+      },
+    ],
+  });
+
+  return Packer.toBlob(doc);
+};
@@ -0,0 +1,170 @@
+import type { ListingFormState } from "./listing";
+
+// -----------------------------
+// DICTIONARY
+// -----------------------------
+export const FAIR_HOUSING_CATEGORIES = [
+  "familial status",
+  "religion",
+  "race / national origin",
+  "sex",
+  "age",
+  "disability",
+  "exclusionary",
+  "steering",
+  "source of income",
+] as const;
+
+export type FairHousingCategory = (typeof FAIR_HOUSING_CATEGORIES)[number];
+
+export type FairHousingRule = {
+  id: string;
+  phrase: string;
+  language: ListingFormState["language"];
+  category: FairHousingCategory;
+  /** Replacement text; empty means the phrase should simply be removed. */
+  suggestion: string;
+};
+
+export const FAIR_HOUSING_KEY = "luxlist-fair-housing-v1";
+
+const rule = (
+  language: FairHousingRule["language"],
+  phrase: string,
+  category: FairHousingCategory,
+  suggestion: string
+): FairHousingRule => ({
+  id: `${language}:${phrase}`,
+  phrase,
+  language,
+  category,
+  suggestion,
+});
+
+export const DEFAULT_FAIR_HOUSING_RULES: FairHousingRule[] = [
+  rule("en", "perfect for families", "familial status", "perfect for anyone wanting extra space"),
+  rule("en", "ideal for families", "familial status", "ideal for anyone wanting extra space"),
+  rule("en", "great for kids", "familial status", "spacious yard"),
+  rule("en", "family neighborhood", "familial status", "welcoming neighborhood"),
+  rule("en", "no children", "familial status", ""),
+  rule("en", "adults only", "familial status", ""),
+  rule("en", "ideal for singles", "familial status", "ideal for any lifestyle"),
+  rule("en", "perfect for singles", "familial status", "perfect for any lifestyle"),
+  rule("en", "empty nesters", "age", "anyone looking to downsize"),
+  rule("en", "ideal for retirees", "age", "ideal for low-maintenance living"),
+  rule("en", "mature couple", "age", ""),
+  rule("en", "bachelor pad", "sex", "stylish retreat"),
+  rule("en", "his and hers", "sex", "dual"),
+  rule("en", "walking distance to church", "religion", "walking distance to local amenities"),
+  rule("en", "near synagogue", "religion", "near local amenities"),
+  rule("en", "christian community", "religion", "welcoming community"),
+  rule("en", "exclusive neighborhood", "exclusionary", "sought-after neighborhood"),
+  rule("en", "exclusive community", "exclusionary", "sought-after community"),
+  rule("en", "safe neighborhood", "steering", "well-kept neighborhood"),
+  rule("en", "integrated neighborhood", "race / national origin", "established neighborhood"),
+  rule("en", "english speaking", "race / national origin", ""),
+  rule("en", "handicapped", "disability", "accessible"),
+  rule("en", "able-bodied", "disability", ""),
+  rule("en", "no service animals", "disability", ""),
+  rule("en", "no emotional support animals", "disability", ""),
+  rule("en", "no section 8", "source of income", ""),
+  rule("en", "no vouchers", "source of income", ""),
+  rule("en", "no housing assistance", "source of income", ""),
+  rule("en", "no public assistance", "source of income", ""),
+  rule("en", "employed only", "source of income", ""),
+  rule("en", "must be employed", "source of income", "verifiable income required"),
+  rule("en", "professionals only", "source of income", ""),
+  rule("en", "students only", "familial status", ""),
+  rule("es", "perfecto para familias", "familial status", "perfecto para quien busca más espacio"),
+  rule("es", "ideal para familias", "familial status", "ideal para quien busca más espacio"),
+  rule("es", "ideal para niños", "familial status", "amplio jardín"),
+  rule("es", "no se aceptan niños", "familial status", ""),
+  rule("es", "solo adultos", "familial status", ""),
+  rule("es", "ideal para solteros", "familial status", "ideal para cualquier estilo de vida"),
+  rule("es", "ideal para jubilados", "age", "ideal para una vida de bajo mantenimiento"),
+  rule("es", "cerca de la iglesia", "religion", "cerca de servicios locales"),
+  rule("es", "a pasos de la iglesia", "religion", "a pasos de servicios locales"),
+  rule("es", "vecindario exclusivo", "exclusionary", "vecindario muy solicitado"),
+  rule("es", "zona exclusiva", "exclusionary", "zona muy solicitada"),
+  rule("es", "barrio seguro", "steering", "barrio bien cuidado"),
+  rule("es", "se habla solo inglés", "race / national origin", ""),
+  rule("es", "minusválidos", "disability", "accesible"),
+  rule("es", "no se aceptan animales de servicio", "disability", ""),
+  rule("es", "no se aceptan vales", "source of income", ""),
+  rule("es", "no se acepta asistencia pública", "source of income", ""),
+  rule("es", "solo empleados", "source of income", ""),
+  rule("es", "solo profesionistas", "source of income", ""),
+];
+
+// -----------------------------
+// SCANNER
+// -----------------------------
+export type FairHousingFlag = {
+  rule: FairHousingRule;
+  start: number;
+  end: number;
+  /** The text as written, which may differ in case or accents. */
+  match: string;
+};
+
+/**
+ * Lowercases and strips accents one UTF-16 unit at a time so offsets in the
+ * folded string line up with the original text.
+ */
+const fold = (text: string) =>
+  text
+    .split("")
+    .map((c) => {
+      const folded = c.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+      return folded.length === 1 ? folded : c;
+    })
+    .join("");
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const scanFairHousing = (
+  text: string,
+  rules: FairHousingRule[]
+): FairHousingFlag[] => {
+  if (!text) return [];
+  const folded = fold(text);
+  const flags: FairHousingFlag[] = [];
+
+  for (const r of rules) {
+    const phrase = fold(r.phrase.trim());
+    if (!phrase) continue;
+    const re = new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegExp(phrase).replace(/\s+/g, "\\s+")}(?![\\p{L}\\p{N}])`,
+      "gu"
+    );
+    for (const m of folded.matchAll(re)) {
+      const start = m.index ?? 0;
+      const end = start + m[0].length;
+      flags.push({ rule: r, start, end, match: text.slice(start, end) });
+    }
+  }
+
+  // Keep the earliest, longest match where phrases overlap.
+  flags.sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: FairHousingFlag[] = [];
+  for (const f of flags) {
+    const last = kept[kept.length - 1];
+    if (!last || f.start >= last.end) kept.push(f);
+  }
+  return kept;
+};
+
+/** Replaces one flagged span with its suggestion, or drops it cleanly. */
+export const applyFairHousingSuggestion = (
+  text: string,
+  flag: FairHousingFlag
+) => {
+  const before = text.slice(0, flag.start);
+  const after = text.slice(flag.end);
+  if (flag.rule.suggestion) return before + flag.rule.suggestion + after;
+
+  const trimmed = before.replace(/\s+$/, "");
+  if (!trimmed) return after.trimStart();
+  return /^[\s,.!?;:]/.test(after) ? trimmed + after : `${trimmed} ${after}`;
+};
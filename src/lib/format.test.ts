@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { formatPrice, parsePrice, readPrice } from "./format";
+
+describe("formatPrice", () => {
+  it("shows a placeholder when empty", () => {
+    expect(formatPrice("")).toBe("No price");
+    expect(formatPrice(undefined)).toBe("No price");
+  });
+
+  it("formats plain amounts in the listing currency", () => {
+    expect(formatPrice("$1,250,000")).toBe("$1,250,000");
+    expect(formatPrice("899000", "EUR")).toBe("€899,000");
+  });
+
+  it("reads an M suffix", () => {
+    expect(formatPrice("$1.2M")).toBe("$1,200,000");
+  });
+
+  it("reads a k suffix", () => {
+    expect(formatPrice("850k")).toBe("$850,000");
+  });
+
+  it("formats ranges, sharing a trailing suffix", () => {
+    expect(formatPrice("$800k–$850k")).toBe("$800,000–$850,000");
+    expect(formatPrice("800-850k")).toBe("$800,000–$850,000");
+  });
+
+  it("keeps monthly rents monthly", () => {
+    expect(formatPrice("$3,200/mo")).toBe("$3,200/mo");
+    expect(formatPrice("3200 per month", "MXN", "es")).toBe("$3,200/mes");
+  });
+
+  it("follows the listing language", () => {
+    expect(formatPrice("1.250.000 €", "EUR", "fr")).toBe(
+      "1\u202f250\u202f000\u00a0€"
+    );
+    expect(formatPrice("1.2M", "USD", "es")).toBe("USD\u00a01,200,000");
+  });
+
+  it("shows unreadable text as typed", () => {
+    expect(formatPrice(" Call for price ")).toBe("Call for price");
+  });
+});
+
+describe("readPrice", () => {
+  it.each([
+    ["1,250,000", 1_250_000],
+    ["1.250.000,50", 1_250_000.5],
+    ["1 250 000", 1_250_000],
+    ["$1.250M", 1_250_000],
+    ["2.5 million", 2_500_000],
+  ])("reads %s", (text, amount) => {
+    expect(readPrice(text)).toEqual({ amount, monthly: false });
+  });
+
+  it("reads the upper end of a range", () => {
+    expect(readPrice("$800,000 to 850k")).toEqual({
+      amount: 800_000,
+      max: 850_000,
+      monthly: false,
+    });
+  });
+});
+
+describe("parsePrice", () => {
+  it("returns the low end of a range", () => {
+    expect(parsePrice("$1.2M - $1.4M")).toBe(1_200_000);
+  });
+
+  it("returns undefined without digits", () => {
+    expect(parsePrice("call agent")).toBeUndefined();
+    expect(parsePrice("")).toBeUndefined();
+  });
+});
@@ -0,0 +1,158 @@
+import type { Language } from "./listing";
+import type { Currency } from "./propertyFields";
+
+// -----------------------------
+// FORMATTING
+// -----------------------------
+export const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// -----------------------------
+// PRICES
+// -----------------------------
+/** A price as typed: one amount or a range, optionally a monthly rent. */
+export type PriceValue = {
+  amount: number;
+  /** Upper end of a range such as "$800k–$850k". */
+  max?: number;
+  monthly: boolean;
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  m: 1_000_000,
+  mm: 1_000_000,
+  million: 1_000_000,
+};
+
+const AMOUNT =
+  /(\d+(?:[.,\s\u00a0\u202f]\d+)*)\s*(k|thousand|mm|m|millions?)?\b/gi;
+/** Between the two ends of a range; allows stray symbols like "k $". */
+const RANGE_SEPARATOR =
+  /^\s*\S{0,4}\s*(?:-|–|—|to|a|à|até|至)\s*\S{0,4}\s*$/i;
+const MONTHLY = /\/\s*(?:mo|month|mes|mês|mois|月)|per\s+month|monthly|pcm/i;
+
+/**
+ * "1,250,000", "1.250.000,50" and "1 250 000" alike. A lone separator is a
+ * thousands mark before exactly three digits, unless a suffix follows
+ * ("1.250M" is one and a quarter million).
+ */
+const toNumber = (raw: string, suffixed: boolean) => {
+  const digits = raw.replace(/[\s\u00a0\u202f]/g, "");
+  const seps = digits.match(/[.,]/g) ?? [];
+  let normalized = digits;
+  if (new Set(seps).size === 2) {
+    // Whichever mark comes last is the decimal point.
+    const commaDecimal = digits.lastIndexOf(",") > digits.lastIndexOf(".");
+    normalized = commaDecimal
+      ? digits.replace(/\./g, "").replace(",", ".")
+      : digits.replace(/,/g, "");
+  } else if (seps.length > 1) {
+    normalized = digits.replace(/[.,]/g, "");
+  } else if (seps.length === 1) {
+    const thousands = !suffixed && /[.,]\d{3}$/.test(digits);
+    normalized = thousands
+      ? digits.replace(/[.,]/, "")
+      : digits.replace(",", ".");
+  }
+  const num = Number(normalized);
+  return Number.isNaN(num) ? undefined : num;
+};
+
+/** Reads "1.2M", "850k", ranges and "/mo" rents; undefined without a number. */
+export const readPrice = (value?: string): PriceValue | undefined => {
+  if (!value?.trim()) return undefined;
+  const matches = [...value.matchAll(AMOUNT)];
+  if (matches.length === 0) return undefined;
+
+  const read = (match: RegExpMatchArray) => {
+    const suffix = match[2]?.toLowerCase().replace(/s$/, "");
+    const num = toNumber(match[1], !!suffix);
+    if (num === undefined) return undefined;
+    const multiplier = suffix ? MULTIPLIERS[suffix] : 1;
+    return { num, multiplier, suffixed: !!suffix };
+  };
+
+  const low = read(matches[0]);
+  if (!low) return undefined;
+  const monthly = MONTHLY.test(value);
+
+  const [first, second] = matches;
+  const between = second
+    ? value.slice(first.index! + first[0].length, second.index)
+    : "";
+  const high =
+    second && RANGE_SEPARATOR.test(between) ? read(second) : undefined;
+  if (!high) return { amount: low.num * low.multiplier, monthly };
+
+  // "800-850k": the suffix on the upper end covers both.
+  const lowMultiplier =
+    !low.suffixed && high.suffixed && low.num <= high.num
+      ? high.multiplier
+      : low.multiplier;
+  return {
+    amount: low.num * lowMultiplier,
+    max: high.num * high.multiplier,
+    monthly,
+  };
+};
+
+/** Lowest amount in a typed price; undefined when there's none. */
+export const parsePrice = (value?: string) => readPrice(value)?.amount;
+
+const PRICE_LOCALES: Record<Language, string> = {
+  en: "en-US",
+  es: "es-MX",
+  pt: "pt-BR",
+  fr: "fr-FR",
+  zh: "zh-CN",
+};
+
+const PER_MONTH: Record<Language, string> = {
+  en: "/mo",
+  es: "/mes",
+  pt: "/mês",
+  fr: "/mois",
+  zh: "/月",
+};
+
+/** A whole amount of money in the listing's language, e.g. "$3,200". */
+export const formatAmount = (
+  amount: number,
+  currency: Currency = "USD",
+  language: Language = "en"
+) =>
+  new Intl.NumberFormat(PRICE_LOCALES[language], {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+/**
+ * Normalized display in the listing's language, e.g. "$1,200,000",
+ * "$800,000–$850,000" or "3.200 €/mois". Unreadable text is shown as typed.
+ * `monthly` marks rents typed without "/mo".
+ */
+export const formatPrice = (
+  value?: string,
+  currency: Currency = "USD",
+  language: Language = "en",
+  monthly = false
+) => {
+  if (!value?.trim()) return "No price";
+  const price = readPrice(value);
+  if (!price) return value.trim();
+
+  const format = (amount: number) => formatAmount(amount, currency, language);
+  const amount =
+    price.max === undefined
+      ? format(price.amount)
+      : `${format(price.amount)}–${format(price.max)}`;
+  return price.monthly || monthly ? amount + PER_MONTH[language] : amount;
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  addHistoryItem,
+  createHistoryItem,
+  editItemField,
+  itemLocale,
+  removeHistoryItem,
+  setItemLocale,
+  stepItemField,
+  toggleHistoryFavorite,
+  type HistoryItem,
+} from "./history";
+import { EMPTY_FORM, type ListingOutputs } from "./listing";
+
+const MLS = "Three bedrooms steps from the water.";
+
+const OUTPUTS: ListingOutputs = { heading: "Harbor-view colonial", mls: MLS };
+
+const item = (address = "12 Harbor Ln") =>
+  createHistoryItem({ ...EMPTY_FORM, address }, OUTPUTS, {
+    templateVersion: 2,
+    model: "mock:fixture",
+  });
+
+describe("history list", () => {
+  it("creates items with their metadata and primary locale", () => {
+    const created = item();
+    expect(created).toMatchObject({
+      favorite: false,
+      templateVersion: 2,
+      model: "mock:fixture",
+    });
+    expect(itemLocale(created).outputs).toEqual(OUTPUTS);
+    expect(itemLocale(created).revisions.mls?.entries).toHaveLength(1);
+  });
+
+  it("adds newest first", () => {
+    const first = item("1 A St");
+    const second = item("2 B St");
+    const history = addHistoryItem(addHistoryItem([], first), second);
+    expect(history.map((h) => h.id)).toEqual([second.id, first.id]);
+  });
+
+  // The old localStorage cap (HISTORY_LIMIT = 50) dropped entries silently.
+  it("keeps every entry past the old 50-item limit", () => {
+    let history: HistoryItem[] = [];
+    for (let i = 0; i < 60; i++) history = addHistoryItem(history, item());
+    expect(history).toHaveLength(60);
+  });
+
+  it("toggles favorites on one item only", () => {
+    const [a, b] = [item(), item()];
+    const starred = toggleHistoryFavorite([a, b], a.id);
+    expect(starred.map((h) => h.favorite)).toEqual([true, false]);
+    expect(toggleHistoryFavorite(starred, a.id)[0].favorite).toBe(false);
+  });
+
+  it("deletes by id", () => {
+    const [a, b] = [item(), item()];
+    expect(removeHistoryItem([a, b], a.id)).toEqual([b]);
+    expect(removeHistoryItem([a, b], "missing")).toEqual([a, b]);
+  });
+
+  it("adds translated locales without touching the primary one", () => {
+    const a = item();
+    const [updated] = setItemLocale([a], a.id, "es", {
+      heading: "Colonial frente al puerto",
+    });
+    expect(updated.locales.es?.outputs.heading).toBe(
+      "Colonial frente al puerto"
+    );
+    expect(updated.locales.en).toBe(a.locales.en);
+  });
+});
+
+describe("section revisions", () => {
+  it("undoes and redoes through the revision stack", () => {
+    const a = item();
+    const edited = editItemField([a], a.id, "en", "mls", "Edited", {
+      kind: "manual",
+    });
+    const undone = stepItemField(edited, a.id, "en", "mls", -1);
+    expect(itemLocale(undone[0]).outputs.mls).toBe(MLS);
+    const redone = stepItemField(undone, a.id, "en", "mls", 1);
+    expect(itemLocale(redone[0]).outputs.mls).toBe("Edited");
+  });
+});
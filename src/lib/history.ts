@@ -0,0 +1,241 @@
+import {
+  LANGUAGES,
+  type Language,
+  type ListingFormState,
+  type ListingOutputs,
+} from "./listing";
+import type { ChannelKey } from "./channels";
+import { createId } from "./id";
+import { textToFormFields, type TextFields } from "./propertyFields";
+import {
+  currentRevision,
+  initRevisions,
+  moveRevision,
+  pushRevision,
+  type OutputRevisions,
+  type RevisionSource,
+} from "./revisions";
+
+// -----------------------------
+// TYPES
+// -----------------------------
+export type LocaleOutputs = {
+  outputs: ListingOutputs;
+  revisions: OutputRevisions;
+};
+
+export type HistoryItem = {
+  id: string;
+  createdAt: string;
+  /** `form.language` is the primary locale; it is always in `locales`. */
+  form: ListingFormState;
+  locales: Partial<Record<Language, LocaleOutputs>>;
+  /** Prompt template version that produced it; absent on older entries. */
+  templateVersion?: number;
+  /** "provider:model" that wrote it; absent on older entries. */
+  model?: string;
+  favorite: boolean;
+};
+
+// -----------------------------
+// LOCALES
+// -----------------------------
+export const createLocale = (outputs: ListingOutputs): LocaleOutputs => ({
+  outputs,
+  revisions: initRevisions(outputs),
+});
+
+/** The requested locale, falling back to the primary one. */
+export const itemLocale = (
+  item: HistoryItem,
+  language: Language = item.form.language
+): LocaleOutputs =>
+  item.locales[language] ?? item.locales[item.form.language]!;
+
+/** Primary language first, then the rest in picker order. */
+export const itemLanguages = (item: HistoryItem): Language[] => [
+  item.form.language,
+  ...LANGUAGES.filter((l) => l !== item.form.language && item.locales[l]),
+];
+
+// -----------------------------
+// LIST UPDATES
+// -----------------------------
+export const createHistoryItem = (
+  form: ListingFormState,
+  outputs: ListingOutputs,
+  meta: Pick<HistoryItem, "templateVersion" | "model"> = {}
+): HistoryItem => ({
+  id: createId(),
+  createdAt: new Date().toISOString(),
+  form,
+  locales: { [form.language]: createLocale(outputs) },
+  ...meta,
+  favorite: false,
+});
+
+/** Newest first. History is uncapped since it moved to IndexedDB. */
+export const addHistoryItem = (history: HistoryItem[], item: HistoryItem) => [
+  item,
+  ...history,
+];
+
+export const removeHistoryItem = (history: HistoryItem[], id: string) =>
+  history.filter((h) => h.id !== id);
+
+export const toggleHistoryFavorite = (history: HistoryItem[], id: string) =>
+  history.map((h) => (h.id === id ? { ...h, favorite: !h.favorite } : h));
+
+const updateLocale = (
+  history: HistoryItem[],
+  id: string,
+  language: Language,
+  update: (locale: LocaleOutputs) => LocaleOutputs
+) =>
+  history.map((h) =>
+    h.id === id
+      ? {
+          ...h,
+          locales: {
+            ...h.locales,
+            [language]: update(itemLocale(h, language)),
+          },
+        }
+      : h
+  );
+
+/** Replaces one locale's copy wholesale, e.g. after a translation. */
+export const setItemLocale = (
+  history: HistoryItem[],
+  id: string,
+  language: Language,
+  outputs: ListingOutputs
+) => updateLocale(history, id, language, () => createLocale(outputs));
+
+export const withOutputField = (
+  outputs: ListingOutputs,
+  field: ChannelKey,
+  text: string
+): ListingOutputs => ({ ...outputs, [field]: text });
+
+/** Records a rewrite or manual edit as a new revision of one section. */
+export const editItemField = (
+  history: HistoryItem[],
+  id: string,
+  language: Language,
+  field: ChannelKey,
+  text: string,
+  source: RevisionSource
+) =>
+  updateLocale(history, id, language, (locale) => ({
+    outputs: withOutputField(locale.outputs, field, text),
+    revisions: {
+      ...locale.revisions,
+      [field]: pushRevision(locale.revisions[field], text, source),
+    },
+  }));
+
+/** Undo (-1) or redo (1) one section; a missing stack is left alone. */
+export const stepItemField = (
+  history: HistoryItem[],
+  id: string,
+  language: Language,
+  field: ChannelKey,
+  step: -1 | 1
+) =>
+  updateLocale(history, id, language, (locale) => {
+    const stack = locale.revisions[field];
+    if (!stack) return locale;
+    const revisions = moveRevision(stack, step);
+    return {
+      outputs: withOutputField(
+        locale.outputs,
+        field,
+        currentRevision(revisions).text
+      ),
+      revisions: { ...locale.revisions, [field]: revisions },
+    };
+  });
+
+// -----------------------------
+// MIGRATION
+// -----------------------------
+/** Before typed fields, property facts were free text and area was `sqft`. */
+type LegacyForm = Omit<
+  ListingFormState,
+  | keyof TextFields
+  | "currency"
+  | "livingAreaUnit"
+  | "lotSizeUnit"
+  | "status"
+  | "listingType"
+> &
+  Omit<TextFields, "livingArea"> & {
+    sqft?: string;
+    status?: undefined;
+    listingType?: undefined;
+  };
+
+export type StoredHistoryItem = Omit<HistoryItem, "form" | "locales"> & {
+  form:
+    | LegacyForm
+    | (Omit<ListingFormState, "status" | "listingType"> &
+        Partial<ListingFormState>);
+  locales?: HistoryItem["locales"];
+  outputs?: ListingOutputs;
+  revisions?: OutputRevisions;
+};
+
+const migrateForm = (form: StoredHistoryItem["form"]): ListingFormState => {
+  // Every form saved since typed fields carries a currency.
+  if ("currency" in form) {
+    return {
+      ...form,
+      status: form.status ?? "active",
+      listingType: form.listingType ?? "sale",
+    };
+  }
+
+  const { propertyType, price, beds, baths, sqft, lotSize, yearBuilt, ...rest } =
+    form as LegacyForm;
+  return {
+    ...rest,
+    highlights: rest.highlights ?? "",
+    status: "active",
+    listingType: "sale",
+    propertyType: "other",
+    currency: "USD",
+    livingAreaUnit: "sqft",
+    lotSizeUnit: "acres",
+    ...textToFormFields({
+      propertyType,
+      price,
+      beds,
+      baths,
+      livingArea: sqft,
+      lotSize,
+      yearBuilt,
+    }),
+  };
+};
+
+/**
+ * Upgrades entries saved before per-locale outputs (and before revisions)
+ * existed: their single output becomes the primary locale. Entries from
+ * before listing statuses count as active sales; free-text facts are parsed
+ * into typed fields.
+ */
+export const migrateHistoryItem = ({
+  outputs,
+  revisions,
+  ...item
+}: StoredHistoryItem): HistoryItem => ({
+  ...item,
+  form: migrateForm(item.form),
+  locales: item.locales ?? {
+    [item.form.language]: {
+      outputs: outputs!,
+      revisions: revisions ?? initRevisions(outputs!),
+    },
+  },
+});
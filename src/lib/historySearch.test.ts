@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { createHistoryItem, type HistoryItem } from "./history";
+import {
+  EMPTY_FILTERS,
+  filterHistory,
+  hasActiveFilters,
+  type HistoryFilters,
+} from "./historySearch";
+import { EMPTY_FORM, type ListingFormState } from "./listing";
+
+const item = (
+  form: Partial<ListingFormState>,
+  extra: Partial<HistoryItem> = {}
+): HistoryItem => ({
+  ...createHistoryItem(
+    { ...EMPTY_FORM, ...form },
+    { heading: "Harbor-view colonial", mls: "Three bedrooms." }
+  ),
+  ...extra,
+});
+
+const addresses = (history: HistoryItem[], filters: Partial<HistoryFilters>) =>
+  filterHistory(history, { ...EMPTY_FILTERS, ...filters }).map(
+    (h) => h.form.address
+  );
+
+describe("history search", () => {
+  const history = [
+    item({ address: "12 Harbor Ln", highlights: "Cocína de chef" }),
+    item({ address: "3 Elm St", neighborhood: "Old Town" }),
+  ];
+
+  it("matches every word, ignoring case and accents", () => {
+    expect(addresses(history, { query: "cocina HARBOR" })).toEqual([
+      "12 Harbor Ln",
+    ]);
+    expect(addresses(history, { query: "old cocina" })).toEqual([]);
+  });
+
+  it("searches generated copy in every locale", () => {
+    const translated: HistoryItem = {
+      ...history[1],
+      locales: {
+        ...history[1].locales,
+        es: {
+          outputs: { heading: "Casa en el centro histórico" },
+          revisions: {},
+        },
+      },
+    };
+    expect(addresses([history[0], translated], { query: "historico" })).toEqual(
+      ["3 Elm St"]
+    );
+    expect(addresses([history[0], translated], { language: "es" })).toEqual([
+      "3 Elm St",
+    ]);
+  });
+});
+
+describe("history filters", () => {
+  const history = [
+    item({ address: "sale usd", price: "850k" }, { favorite: true }),
+    item({ address: "sale eur", price: "€900.000", currency: "EUR" }),
+    item({ address: "rent usd", price: "$3,200/mo", listingType: "rental" }),
+    item({ address: "no price", price: "" }),
+  ];
+
+  it("compares price bounds with dollar sales by default", () => {
+    expect(addresses(history, { minPrice: "1000" })).toEqual(["sale usd"]);
+  });
+
+  it("compares rents only with rents, in the chosen currency", () => {
+    expect(
+      addresses(history, { listingType: "rental", maxPrice: "5000" })
+    ).toEqual(["rent usd"]);
+    expect(addresses(history, { currency: "EUR", minPrice: "500k" })).toEqual([
+      "sale eur",
+    ]);
+  });
+
+  it("filters by favorite, listing type and date", () => {
+    expect(addresses(history, { favoritesOnly: true })).toEqual(["sale usd"]);
+    expect(
+      addresses(history, {
+        listingType: "sale",
+        currency: "USD",
+        sort: "oldest",
+      })
+    ).toEqual(["sale usd", "no price"]);
+    const old = item(
+      { address: "old" },
+      { createdAt: "2020-01-01T12:00:00.000Z" }
+    );
+    expect(addresses([old, ...history], { to: "2020-01-02" })).toEqual(["old"]);
+    expect(addresses([old, ...history], { from: "2021-01-01" })).not.toContain(
+      "old"
+    );
+  });
+
+  it("reports whether any filter is set, ignoring the sort", () => {
+    expect(hasActiveFilters({ ...EMPTY_FILTERS, sort: "oldest" })).toBe(false);
+    expect(hasActiveFilters({ ...EMPTY_FILTERS, currency: "MXN" })).toBe(true);
+  });
+});
+
+describe("history sort", () => {
+  it("keeps sales and rentals, and each currency, in their own groups", () => {
+    const history = [
+      item({ address: "rent", price: "$3,200/mo", listingType: "rental" }),
+      item({ address: "eur", price: "€900.000", currency: "EUR" }),
+      item({ address: "cheap", price: "400k" }),
+      item({ address: "none", price: "" }),
+      item({ address: "dear", price: "$1.2M" }),
+    ];
+    expect(addresses(history, { sort: "priceHigh" })).toEqual([
+      "dear",
+      "cheap",
+      "eur",
+      "rent",
+      "none",
+    ]);
+    expect(addresses(history, { sort: "priceLow" })).toEqual([
+      "cheap",
+      "dear",
+      "eur",
+      "rent",
+      "none",
+    ]);
+  });
+
+  it("sorts by date and address", () => {
+    const a = item({ address: "B St" }, { createdAt: "2026-01-01T00:00:00Z" });
+    const b = item({ address: "" }, { createdAt: "2026-02-01T00:00:00Z" });
+    const c = item({ address: "A St" }, { createdAt: "2026-03-01T00:00:00Z" });
+    expect(addresses([a, b, c], { sort: "newest" })).toEqual([
+      "A St",
+      "",
+      "B St",
+    ]);
+    expect(addresses([a, b, c], { sort: "oldest" })).toEqual([
+      "B St",
+      "",
+      "A St",
+    ]);
+    expect(addresses([a, b, c], { sort: "address" })).toEqual([
+      "A St",
+      "B St",
+      "",
+    ]);
+  });
+});
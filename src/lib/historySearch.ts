@@ -0,0 +1,197 @@
+import { AMENITY_LABELS } from "./amenities";
+import { parsePrice } from "./format";
+import type { HistoryItem, LocaleOutputs } from "./history";
+import type { Language, ListingFormState, ListingType } from "./listing";
+import {
+  CURRENCIES,
+  PROPERTY_TYPES,
+  formatPropertyType,
+  type Currency,
+  type PropertyType,
+} from "./propertyFields";
+
+// -----------------------------
+// TYPES
+// -----------------------------
+export const HISTORY_SORTS = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  priceHigh: "Price: high to low",
+  priceLow: "Price: low to high",
+  address: "Address A–Z",
+} as const;
+
+export type HistorySort = keyof typeof HISTORY_SORTS;
+
+export type HistoryFilters = {
+  query: string;
+  favoritesOnly: boolean;
+  tone: ListingFormState["tone"] | "";
+  /** Matches any locale the entry has, not only the primary one. */
+  language: Language | "";
+  propertyType: PropertyType | "";
+  listingType: ListingType | "";
+  currency: Currency | "";
+  /** Bounds in `priceScope`: one currency, sale prices or monthly rents. */
+  minPrice: string;
+  maxPrice: string;
+  /** Inclusive `yyyy-mm-dd` bounds, in local time. */
+  from: string;
+  to: string;
+  sort: HistorySort;
+};
+
+export const EMPTY_FILTERS: HistoryFilters = {
+  query: "",
+  favoritesOnly: false,
+  tone: "",
+  language: "",
+  propertyType: "",
+  listingType: "",
+  currency: "",
+  minPrice: "",
+  maxPrice: "",
+  from: "",
+  to: "",
+  sort: "newest",
+};
+
+// -----------------------------
+// FULL-TEXT SEARCH
+// -----------------------------
+/** Lowercase without accents, so "cocina" finds "Cocína" and vice versa. */
+const fold = (text: string) =>
+  text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+const searchText = (item: HistoryItem) =>
+  fold(
+    [
+      item.form.address,
+      formatPropertyType(item.form),
+      item.form.neighborhood,
+      item.form.highlights,
+      ...(item.form.amenities ?? []).map((a) => AMENITY_LABELS[a]),
+      ...(item.form.renovations ?? []).map((r) => r.area),
+      ...Object.values(item.locales).flatMap((locale: LocaleOutputs) =>
+        Object.values(locale.outputs)
+      ),
+    ]
+      .filter(Boolean)
+      .join("\n")
+  );
+
+/** Every word of the query must appear somewhere in the entry. */
+const matchesQuery = (item: HistoryItem, query: string) => {
+  const words = fold(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const text = searchText(item);
+  return words.every((word) => text.includes(word));
+};
+
+// -----------------------------
+// FILTER & SORT
+// -----------------------------
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What the price bounds are compared against. A €900,000 sale and a
+ * $3,200/mo rent aren't on one scale, so bounds apply to sales in dollars
+ * unless the listing type or currency filter says otherwise.
+ */
+export const priceScope = (filters: HistoryFilters) => ({
+  listingType: filters.listingType || "sale",
+  currency: filters.currency || "USD",
+});
+
+const matchesFilters = (item: HistoryItem, filters: HistoryFilters) => {
+  const { form } = item;
+  if (filters.favoritesOnly && !item.favorite) return false;
+  if (filters.tone && form.tone !== filters.tone) return false;
+  if (filters.language && !item.locales[filters.language]) return false;
+  if (filters.propertyType && form.propertyType !== filters.propertyType) {
+    return false;
+  }
+  if (filters.listingType && form.listingType !== filters.listingType) {
+    return false;
+  }
+  if (filters.currency && form.currency !== filters.currency) return false;
+
+  const min = parsePrice(filters.minPrice);
+  const max = parsePrice(filters.maxPrice);
+  if (min !== undefined || max !== undefined) {
+    const scope = priceScope(filters);
+    if (form.listingType !== scope.listingType) return false;
+    if (form.currency !== scope.currency) return false;
+    const price = parsePrice(form.price);
+    if (price === undefined) return false;
+    if (min !== undefined && price < min) return false;
+    if (max !== undefined && price > max) return false;
+  }
+
+  const created = new Date(item.createdAt).getTime();
+  if (filters.from && created < dayStart(filters.from)) return false;
+  if (filters.to && created >= dayStart(filters.to) + DAY_MS) return false;
+
+  return matchesQuery(item, filters.query);
+};
+
+/** Entries missing the value sort last in either direction. */
+const missingLast = <T>(
+  a: T | undefined,
+  b: T | undefined,
+  compare: (a: T, b: T) => number
+) => {
+  if (a === undefined || b === undefined) {
+    return (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0);
+  }
+  return compare(a, b);
+};
+
+/** Sales before rentals, each by currency; prices compare within a group. */
+const priceGroup = ({ form }: HistoryItem) =>
+  (form.listingType === "rental" ? CURRENCIES.length : 0) +
+  CURRENCIES.indexOf(form.currency);
+
+const byPrice = (direction: 1 | -1) => (a: HistoryItem, b: HistoryItem) =>
+  missingLast(
+    parsePrice(a.form.price),
+    parsePrice(b.form.price),
+    (pa, pb) => priceGroup(a) - priceGroup(b) || (pa - pb) * direction
+  );
+
+const COMPARATORS: Record<
+  HistorySort,
+  (a: HistoryItem, b: HistoryItem) => number
+> = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  oldest: (a, b) => a.createdAt.localeCompare(b.createdAt),
+  priceHigh: byPrice(-1),
+  priceLow: byPrice(1),
+  address: (a, b) =>
+    missingLast(
+      a.form.address || undefined,
+      b.form.address || undefined,
+      (x, y) => x.localeCompare(y)
+    ),
+};
+
+export const filterHistory = (
+  history: HistoryItem[],
+  filters: HistoryFilters
+) =>
+  history
+    .filter((item) => matchesFilters(item, filters))
+    .sort(COMPARATORS[filters.sort]);
+
+export const hasActiveFilters = (filters: HistoryFilters) =>
+  (Object.keys(EMPTY_FILTERS) as (keyof HistoryFilters)[]).some(
+    (key) => key !== "sort" && filters[key] !== EMPTY_FILTERS[key]
+  );
+
+/** Property types present in the history, in picker order. */
+export const propertyTypes = (history: HistoryItem[]) => {
+  const present = new Set(history.map((item) => item.form.propertyType));
+  return PROPERTY_TYPES.filter((type) => present.has(type));
+};
@@ -0,0 +1,113 @@
+import {
+  migrateHistoryItem,
+  type HistoryItem,
+  type StoredHistoryItem,
+} from "./history";
+
+// -----------------------------
+// DATABASE
+// -----------------------------
+/** Where history lived before IndexedDB; read once, then removed. */
+export const LEGACY_HISTORY_KEY = "luxlist-history-v1";
+
+const DB_NAME = "luxlist";
+const DB_VERSION = 1;
+const STORE = "history";
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available."));
+  }
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("createdAt", "createdAt");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+};
+
+// -----------------------------
+// LEGACY MIGRATION
+// -----------------------------
+/** Copies the localStorage list into an empty store, then drops the key. */
+const migrateLegacyHistory = async (db: IDBDatabase) => {
+  const raw = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!raw) return;
+
+  const items = (JSON.parse(raw) as StoredHistoryItem[]).map(
+    migrateHistoryItem
+  );
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  for (const item of items) store.put(item);
+  await done(tx);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+// -----------------------------
+// READ / WRITE
+// -----------------------------
+/** Every entry, newest first. */
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  const db = await openDb();
+  const count = await request(
+    db.transaction(STORE).objectStore(STORE).count()
+  );
+  if (count === 0) await migrateLegacyHistory(db);
+
+  const stored = await request(
+    db.transaction(STORE).objectStore(STORE).getAll()
+  );
+  return (stored as StoredHistoryItem[])
+    .map(migrateHistoryItem)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/** What one write put and deleted; other tabs replay it. */
+export type HistoryChange = { put: HistoryItem[]; deleted: string[] };
+
+/**
+ * Writes the difference between two snapshots of the list in one
+ * transaction: entries that are new or were replaced (by reference) are put,
+ * missing ones are deleted. Resolves to the change, or null if none.
+ */
+export const syncHistory = async (
+  prev: HistoryItem[],
+  next: HistoryItem[]
+): Promise<HistoryChange | null> => {
+  const before = new Map(prev.map((item) => [item.id, item]));
+  const changed = next.filter((item) => before.get(item.id) !== item);
+  const kept = new Set(next.map((item) => item.id));
+  const removed = prev.filter((item) => !kept.has(item.id));
+  if (changed.length === 0 && removed.length === 0) return null;
+
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  for (const item of changed) store.put(item);
+  for (const item of removed) store.delete(item.id);
+  await done(tx);
+  return { put: changed, deleted: removed.map((item) => item.id) };
+};
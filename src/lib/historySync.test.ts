@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createHistoryItem,
+  editItemField,
+  toggleHistoryFavorite,
+  type HistoryItem,
+} from "./history";
+import { mergeHistoryChange } from "./historySync";
+import { EMPTY_FORM } from "./listing";
+
+const at = (time: string) => vi.setSystemTime(new Date(time));
+
+const item = (address: string) =>
+  createHistoryItem(
+    { ...EMPTY_FORM, address },
+    { heading: "Harbor-view colonial", mls: "Three bedrooms." },
+    { templateVersion: 2, model: "mock:fixture" }
+  );
+
+const edit = (base: HistoryItem, text: string) =>
+  editItemField([base], base.id, "en", "mls", text, {
+    kind: "manual",
+  })[0];
+
+describe("mergeHistoryChange", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("adds, replaces and deletes like a plain apply", () => {
+    vi.useFakeTimers();
+    at("2026-03-01T10:00:00Z");
+    const kept = item("1 A St");
+    const gone = item("2 B St");
+    const added = item("3 C St");
+    at("2026-03-01T11:00:00Z");
+    const edited = edit(kept, "Edited in the other tab.");
+
+    const merged = mergeHistoryChange([kept, gone], {
+      put: [added, edited],
+      deleted: [gone.id],
+    });
+    expect(merged).toEqual([added, edited]);
+  });
+
+  it("slots new items in by creation date, newest first", () => {
+    vi.useFakeTimers();
+    at("2026-03-01T09:00:00Z");
+    const oldest = item("Imported earlier");
+    at("2026-03-01T10:00:00Z");
+    const older = item("1 A St");
+    at("2026-03-01T11:00:00Z");
+    const middle = item("Imported between");
+    at("2026-03-01T12:00:00Z");
+    const newer = item("2 B St");
+
+    const merged = mergeHistoryChange([newer, older], {
+      put: [oldest, middle],
+      deleted: [],
+    });
+    expect(merged).toEqual([newer, middle, older, oldest]);
+  });
+
+  it("keeps this tab's copy when it was edited later", () => {
+    vi.useFakeTimers();
+    at("2026-03-01T10:00:00Z");
+    const base = item("1 A St");
+    at("2026-03-01T11:00:00Z");
+    const theirs = edit(base, "Edited in the other tab.");
+    at("2026-03-01T12:00:00Z");
+    const mine = edit(base, "Edited here afterwards.");
+
+    expect(mergeHistoryChange([mine], { put: [theirs], deleted: [] })).toEqual([
+      mine,
+    ]);
+  });
+
+  it("takes the other tab's copy on a tie, e.g. a favorite toggle", () => {
+    const base = item("1 A St");
+    const [theirs] = toggleHistoryFavorite([base], base.id);
+    expect(mergeHistoryChange([base], { put: [theirs], deleted: [] })).toEqual([
+      theirs,
+    ]);
+  });
+});
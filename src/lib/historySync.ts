@@ -0,0 +1,107 @@
+import type { HistoryItem } from "./history";
+import type { HistoryChange } from "./historyStore";
+import { lastModified } from "./historyTransfer";
+
+// -----------------------------
+// CROSS-TAB SYNC
+// -----------------------------
+const CHANNEL_NAME = "luxlist-history";
+
+/** Fallback without BroadcastChannel: set then removed, firing `storage`. */
+const SYNC_STORAGE_KEY = "luxlist-history-sync";
+
+let channel: BroadcastChannel | null | undefined;
+
+const getChannel = () => {
+  channel ??=
+    typeof BroadcastChannel === "undefined"
+      ? null
+      : new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+};
+
+/** Tells other open tabs about a change this tab has already stored. */
+export const publishHistoryChange = (change: HistoryChange) => {
+  const bc = getChannel();
+  if (bc) {
+    bc.postMessage(change);
+    return;
+  }
+  try {
+    localStorage.setItem(SYNC_STORAGE_KEY, JSON.stringify(change));
+    localStorage.removeItem(SYNC_STORAGE_KEY);
+  } catch {
+    // Too big for localStorage; other tabs see it after a reload.
+  }
+};
+
+/** Calls `onChange` for changes stored by other tabs; returns unsubscribe. */
+export const subscribeHistoryChanges = (
+  onChange: (change: HistoryChange) => void
+) => {
+  const bc = getChannel();
+  if (bc) {
+    const listener = (e: MessageEvent<HistoryChange>) => onChange(e.data);
+    bc.addEventListener("message", listener);
+    return () => bc.removeEventListener("message", listener);
+  }
+
+  const listener = (e: StorageEvent) => {
+    if (e.key === SYNC_STORAGE_KEY && e.newValue) {
+      onChange(JSON.parse(e.newValue));
+    }
+  };
+  window.addEventListener("storage", listener);
+  return () => window.removeEventListener("storage", listener);
+};
+
+export const applyHistoryChange = (
+  items: HistoryItem[],
+  { put, deleted }: HistoryChange
+) => {
+  const replaced = new Set(put.map((item) => item.id));
+  const removed = new Set(deleted);
+  return [
+    ...put,
+    ...items.filter((item) => !replaced.has(item.id) && !removed.has(item.id)),
+  ];
+};
+
+/**
+ * Whether another tab's copy replaces this tab's, as importing with the
+ * "newer" strategy decides. Ties go to the other tab: favorites, statuses
+ * and undo don't move `lastModified`.
+ */
+export const takesIncoming = (
+  current: HistoryItem | undefined,
+  incoming: HistoryItem
+) => !current || lastModified(incoming) >= lastModified(current);
+
+/**
+ * `applyHistoryChange`, keeping items edited here since the other tab saved.
+ * New items are slotted in by `createdAt`, so a batch or import from another
+ * tab keeps the list newest first.
+ */
+export const mergeHistoryChange = (
+  items: HistoryItem[],
+  { put, deleted }: HistoryChange
+) => {
+  const incoming = new Map(put.map((item) => [item.id, item]));
+  const known = new Set(items.map((item) => item.id));
+  const removed = new Set(deleted);
+  const added = put
+    .filter((item) => !known.has(item.id))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const merged: HistoryItem[] = [];
+  let next = 0;
+  for (const item of items) {
+    if (removed.has(item.id)) continue;
+    while (next < added.length && added[next].createdAt >= item.createdAt) {
+      merged.push(added[next++]);
+    }
+    const theirs = incoming.get(item.id);
+    merged.push(theirs && takesIncoming(item, theirs) ? theirs : item);
+  }
+  return [...merged, ...added.slice(next)];
+};
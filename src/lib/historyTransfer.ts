@@ -0,0 +1,243 @@
+import { z } from "zod";
+import { CHANNEL_KEYS } from "./channels";
+import {
+  migrateHistoryItem,
+  type HistoryItem,
+  type StoredHistoryItem,
+} from "./history";
+import { createId } from "./id";
+import { LANGUAGES, ListingSchema } from "./listing";
+
+// -----------------------------
+// VALIDATION
+// -----------------------------
+const revisionBase = {
+  id: z.string().min(1),
+  createdAt: z.iso.datetime(),
+  text: z.string(),
+};
+
+const RevisionSchema = z.discriminatedUnion("kind", [
+  z.object({ ...revisionBase, kind: z.literal("generated") }),
+  z.object({
+    ...revisionBase,
+    kind: z.literal("rewrite"),
+    instruction: z.string(),
+  }),
+  z.object({ ...revisionBase, kind: z.literal("manual") }),
+]);
+
+const FieldRevisionsSchema = z
+  .object({
+    entries: z.array(RevisionSchema).min(1),
+    index: z.number().int().min(0),
+  })
+  .refine((r) => r.index < r.entries.length, {
+    message: "index is past the last revision",
+    path: ["index"],
+  });
+
+// Saved copy may have been edited down to nothing, so any string is fine.
+const LocaleOutputsSchema = z.object({
+  outputs: z.partialRecord(z.enum(CHANNEL_KEYS), z.string()),
+  revisions: z.partialRecord(z.enum(CHANNEL_KEYS), FieldRevisionsSchema),
+});
+
+export const HistoryItemSchema = z
+  .object({
+    id: z.string().min(1),
+    createdAt: z.iso.datetime(),
+    form: ListingSchema,
+    locales: z.partialRecord(z.enum(LANGUAGES), LocaleOutputsSchema),
+    templateVersion: z.number().int().min(1).optional(),
+    model: z.string().min(1).optional(),
+    favorite: z.boolean(),
+  })
+  .refine((item) => item.locales[item.form.language], {
+    message: "outputs for the primary language are missing",
+    path: ["locales"],
+  }) satisfies z.ZodType<HistoryItem>;
+
+// -----------------------------
+// EXPORT
+// -----------------------------
+export const HISTORY_EXPORT_FORMAT = "luxlist-history";
+export const HISTORY_EXPORT_VERSION = 1;
+
+const HistoryExportSchema = z.object({
+  format: z.literal(HISTORY_EXPORT_FORMAT),
+  version: z.number().int().min(1),
+  exportedAt: z.string(),
+  items: z.array(z.unknown()),
+});
+
+export const exportHistory = (items: HistoryItem[]) =>
+  JSON.stringify(
+    {
+      format: HISTORY_EXPORT_FORMAT,
+      version: HISTORY_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      items,
+    },
+    null,
+    2
+  );
+
+export const historyExportFileName = (date = new Date()) =>
+  `luxlist-history-${date.toISOString().slice(0, 10)}.json`;
+
+// -----------------------------
+// IMPORT
+// -----------------------------
+export type ParsedHistoryImport = {
+  items: HistoryItem[];
+  /** Entries that failed validation; the rest can still be imported. */
+  invalid: { index: number; error: string }[];
+};
+
+/** Older saves (per-field outputs, no statuses) are upgraded first. */
+const upgrade = (raw: unknown) => {
+  if (typeof raw !== "object" || raw === null || !("form" in raw)) return raw;
+  try {
+    return migrateHistoryItem(raw as StoredHistoryItem);
+  } catch {
+    return raw;
+  }
+};
+
+/**
+ * Reads an export file. A bare array is accepted too: that's what the old
+ * `luxlist-history-v1` localStorage key held.
+ */
+export const parseHistoryImport = (text: string): ParsedHistoryImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+
+  let raw: unknown[];
+  if (Array.isArray(data)) {
+    raw = data;
+  } else {
+    const parsed = HistoryExportSchema.safeParse(data);
+    if (!parsed.success) {
+      throw new Error("This file isn't a LuxList history export.");
+    }
+    if (parsed.data.version > HISTORY_EXPORT_VERSION) {
+      throw new Error(
+        `This export is version ${parsed.data.version}; update LuxList to import it.`
+      );
+    }
+    raw = parsed.data.items;
+  }
+
+  const result: ParsedHistoryImport = { items: [], invalid: [] };
+  raw.forEach((entry, index) => {
+    const parsed = HistoryItemSchema.safeParse(upgrade(entry));
+    if (parsed.success) {
+      result.items.push(parsed.data);
+      return;
+    }
+    const issue = parsed.error.issues[0];
+    result.invalid.push({
+      index,
+      error: `${issue.path.join(".") || "entry"}: ${issue.message}`,
+    });
+  });
+  return result;
+};
+
+// -----------------------------
+// MERGE
+// -----------------------------
+export const CONFLICT_STRATEGIES = {
+  newer: "Keep whichever was edited last",
+  mine: "Keep this device's version",
+  theirs: "Use the imported version",
+  both: "Keep both",
+} as const;
+
+export type ConflictStrategy = keyof typeof CONFLICT_STRATEGIES;
+
+export type HistoryConflict = { current: HistoryItem; incoming: HistoryItem };
+
+export type ImportPlan = {
+  added: HistoryItem[];
+  unchanged: number;
+  /** Same id on both sides with different content. */
+  conflicts: HistoryConflict[];
+};
+
+/** Key order differs between app-built and zod-parsed objects. */
+const canonical = (value: unknown): string =>
+  Array.isArray(value)
+    ? `[${value.map(canonical).join(",")}]`
+    : typeof value === "object" && value !== null
+    ? `{${Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`)
+        .join(",")}}`
+    : JSON.stringify(value);
+
+/** Creation time or the latest revision, whichever is later. */
+export const lastModified = (item: HistoryItem) =>
+  Object.values(item.locales)
+    .flatMap((locale) => Object.values(locale?.revisions ?? {}))
+    .flatMap((revs) => revs?.entries ?? [])
+    .reduce(
+      (latest, rev) => (rev.createdAt > latest ? rev.createdAt : latest),
+      item.createdAt
+    );
+
+export const planHistoryImport = (
+  current: HistoryItem[],
+  incoming: HistoryItem[]
+): ImportPlan => {
+  const byId = new Map(current.map((item) => [item.id, item]));
+  // A file listing the same id twice keeps the last copy.
+  const unique = [...new Map(incoming.map((item) => [item.id, item])).values()];
+  const plan: ImportPlan = { added: [], unchanged: 0, conflicts: [] };
+
+  for (const item of unique) {
+    const existing = byId.get(item.id);
+    if (!existing) plan.added.push(item);
+    else if (canonical(existing) === canonical(item)) plan.unchanged++;
+    else plan.conflicts.push({ current: existing, incoming: item });
+  }
+  return plan;
+};
+
+const resolveConflict = (
+  { current, incoming }: HistoryConflict,
+  strategy: ConflictStrategy
+): HistoryItem[] => {
+  switch (strategy) {
+    case "mine":
+      return [current];
+    case "theirs":
+      return [incoming];
+    case "both":
+      return [current, { ...incoming, id: createId() }];
+    case "newer":
+      return [
+        lastModified(incoming) > lastModified(current) ? incoming : current,
+      ];
+  }
+};
+
+export const applyHistoryImport = (
+  current: HistoryItem[],
+  plan: ImportPlan,
+  strategy: ConflictStrategy
+) => {
+  const resolved = new Map(
+    plan.conflicts.map((c) => [c.current.id, resolveConflict(c, strategy)])
+  );
+  return [
+    ...plan.added,
+    ...current.flatMap((item) => resolved.get(item.id) ?? [item]),
+  ];
+};
@@ -0,0 +1,4 @@
+export const createId = () =>
+  (crypto?.randomUUID?.() ?? Date.now().toString()) +
+  "-" +
+  Math.random().toString(16).slice(2);
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyzeInvestment,
+  investorFigures,
+  investorSheetCsv,
+  monthlyPayment,
+  withInvestorFigures,
+} from "./investor";
+import { EMPTY_FORM, type ListingFormState } from "./listing";
+
+const FORM: ListingFormState = {
+  ...EMPTY_FORM,
+  price: "$400,000",
+  highlights: "Duplex near campus",
+  expectedRent: 3000,
+  annualTaxes: 4800,
+  annualInsurance: 1200,
+  monthlyHoa: 0,
+  downPaymentPercent: 25,
+  interestRate: 6,
+};
+
+describe("monthlyPayment", () => {
+  it("amortizes over 30 years", () => {
+    expect(monthlyPayment(300_000, 6)).toBeCloseTo(1798.65, 2);
+  });
+
+  it("handles zero interest and no loan", () => {
+    expect(monthlyPayment(360_000, 0)).toBe(1000);
+    expect(monthlyPayment(0, 6)).toBe(0);
+  });
+});
+
+describe("analyzeInvestment", () => {
+  it("computes the returns of a financed purchase", () => {
+    const analysis = analyzeInvestment(FORM)!;
+    expect(analysis.noi).toBe(30_000);
+    expect(analysis.capRate).toBeCloseTo(0.075);
+    expect(analysis.grossRentMultiplier).toBeCloseTo(11.11, 2);
+    expect(analysis.downPayment).toBe(100_000);
+    expect(analysis.monthlyCashFlow).toBeCloseTo(701.35, 2);
+    expect(analysis.cashOnCash).toBeCloseTo(0.0842, 4);
+  });
+
+  it("treats missing financing as all cash", () => {
+    const analysis = analyzeInvestment({ ...FORM, interestRate: undefined })!;
+    expect(analysis.financed).toBe(false);
+    expect(analysis.monthlyMortgage).toBe(0);
+    expect(analysis.cashOnCash).toBeCloseTo(analysis.capRate);
+  });
+
+  it("needs a sale price and the expected rent", () => {
+    for (const patch of [
+      { expectedRent: undefined },
+      { price: "" },
+      { listingType: "rental" as const },
+    ]) {
+      expect(analyzeInvestment({ ...FORM, ...patch })).toBeUndefined();
+    }
+  });
+});
+
+describe("investor sheet", () => {
+  it("formats the figures", () => {
+    const figures = investorFigures(analyzeInvestment(FORM)!);
+    const byLabel = Object.fromEntries(figures.map((f) => [f.label, f.value]));
+    expect(byLabel).toMatchObject({
+      Financing: "25% down at 6%, 30-year fixed",
+      "Cap Rate": "7.5%",
+      "Cash-on-Cash Return": "8.4%",
+      "Gross Rent Multiplier": "11.1",
+      "Monthly Cash Flow": "$701",
+    });
+  });
+
+  it("exports a CSV only when there are figures", () => {
+    expect(investorSheetCsv(FORM)?.split("\r\n")[0]).toBe("metric,value");
+    expect(investorSheetCsv(EMPTY_FORM)).toBeUndefined();
+  });
+
+  it("adds the figures to investor rewrites", () => {
+    expect(withInvestorFigures("Appeal to investors.", FORM)).toContain(
+      "- Cap Rate: 7.5%"
+    );
+    expect(withInvestorFigures("Appeal to investors.", EMPTY_FORM)).toBe(
+      "Appeal to investors."
+    );
+  });
+});
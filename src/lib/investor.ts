@@ -0,0 +1,172 @@
+import { toCsv } from "./csv";
+import { formatAmount, parsePrice } from "./format";
+import type { Language, ListingFormState } from "./listing";
+import type { Currency } from "./propertyFields";
+
+// -----------------------------
+// CALCULATOR
+// -----------------------------
+/** Financing assumed when a down payment and rate are given. */
+export const LOAN_TERM_YEARS = 30;
+
+export type InvestorAnalysis = {
+  price: number;
+  monthlyRent: number;
+  /** Taxes, insurance and HOA dues per year. */
+  annualExpenses: number;
+  /** Net operating income per year, before debt service. */
+  noi: number;
+  /** False when no financing was entered; treated as an all-cash purchase. */
+  financed: boolean;
+  downPaymentPercent: number;
+  interestRate: number;
+  downPayment: number;
+  monthlyMortgage: number;
+  monthlyCashFlow: number;
+  /** Fractions, e.g. 0.052 for 5.2%. */
+  capRate: number;
+  cashOnCash?: number;
+  grossRentMultiplier: number;
+};
+
+/** Fixed-rate principal and interest per month. */
+export const monthlyPayment = (
+  loan: number,
+  annualRatePercent: number,
+  years = LOAN_TERM_YEARS
+) => {
+  const months = years * 12;
+  const rate = annualRatePercent / 100 / 12;
+  if (loan <= 0) return 0;
+  if (rate === 0) return loan / months;
+  return (loan * rate) / (1 - (1 + rate) ** -months);
+};
+
+/**
+ * Cap rate, cash-on-cash, GRM and cash flow from the investor inputs.
+ * Undefined until the listing is a sale with a price and an expected rent;
+ * a price range is analyzed at its low end.
+ */
+export const analyzeInvestment = (
+  form: ListingFormState
+): InvestorAnalysis | undefined => {
+  const price = parsePrice(form.price);
+  const monthlyRent = form.expectedRent;
+  if (form.listingType === "rental" || !price || !monthlyRent) return;
+
+  const annualRent = monthlyRent * 12;
+  const annualExpenses =
+    (form.annualTaxes ?? 0) +
+    (form.annualInsurance ?? 0) +
+    (form.monthlyHoa ?? 0) * 12;
+  const noi = annualRent - annualExpenses;
+
+  const { downPaymentPercent: dp, interestRate: ir } = form;
+  const financed = dp !== undefined && dp < 100 && ir !== undefined;
+  const downPaymentPercent = financed ? dp : 100;
+  const interestRate = financed ? ir : 0;
+  const downPayment = (price * downPaymentPercent) / 100;
+  const monthlyMortgage = monthlyPayment(price - downPayment, interestRate);
+  const annualCashFlow = noi - monthlyMortgage * 12;
+
+  return {
+    price,
+    monthlyRent,
+    annualExpenses,
+    noi,
+    financed,
+    downPaymentPercent,
+    interestRate,
+    downPayment,
+    monthlyMortgage,
+    monthlyCashFlow: annualCashFlow / 12,
+    capRate: noi / price,
+    cashOnCash: downPayment > 0 ? annualCashFlow / downPayment : undefined,
+    grossRentMultiplier: price / annualRent,
+  };
+};
+
+// -----------------------------
+// INVESTOR SHEET
+// -----------------------------
+export type InvestorFigure = { label: string; value: string };
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+/** The sheet's rows, shared by the panel, the prompt and the CSV export. */
+export const investorFigures = (
+  analysis: InvestorAnalysis,
+  currency: Currency = "USD",
+  language: Language = "en"
+): InvestorFigure[] => {
+  const money = (amount: number) =>
+    formatAmount(Math.round(amount), currency, language);
+  return [
+    { label: "Purchase Price", value: money(analysis.price) },
+    { label: "Expected Rent", value: `${money(analysis.monthlyRent)}/mo` },
+    {
+      label: "Operating Expenses",
+      value: `${money(analysis.annualExpenses)}/yr`,
+    },
+    { label: "Net Operating Income", value: `${money(analysis.noi)}/yr` },
+    {
+      label: "Financing",
+      value: analysis.financed
+        ? `${analysis.downPaymentPercent}% down at ${analysis.interestRate}%, ${LOAN_TERM_YEARS}-year fixed`
+        : "All cash",
+    },
+    {
+      label: "Mortgage Payment",
+      value: `${money(analysis.monthlyMortgage)}/mo`,
+    },
+    { label: "Cap Rate", value: percent(analysis.capRate) },
+    {
+      label: "Cash-on-Cash Return",
+      value:
+        analysis.cashOnCash === undefined
+          ? "N/A"
+          : percent(analysis.cashOnCash),
+    },
+    {
+      label: "Gross Rent Multiplier",
+      value: analysis.grossRentMultiplier.toFixed(1),
+    },
+    { label: "Monthly Cash Flow", value: money(analysis.monthlyCashFlow) },
+  ];
+};
+
+/** "Cap Rate: 5.2%" lines for the prompt, or undefined without figures. */
+export const investorLines = (form: ListingFormState) => {
+  const analysis = analyzeInvestment(form);
+  return (
+    analysis &&
+    investorFigures(analysis, form.currency, form.language).map(
+      ({ label, value }) => `${label}: ${value}`
+    )
+  );
+};
+
+/** A rewrite instruction with the figures to cite, when there are any. */
+export const withInvestorFigures = (
+  instruction: string,
+  form: ListingFormState
+) => {
+  const lines = investorLines(form);
+  if (!lines) return instruction;
+  return [
+    instruction,
+    "Cite these figures exactly where they help; do not invent other returns:",
+    ...lines.map((line) => `- ${line}`),
+  ].join("\n");
+};
+
+export const investorSheetCsv = (form: ListingFormState) => {
+  const analysis = analyzeInvestment(form);
+  if (!analysis) return undefined;
+  return toCsv(
+    ["metric", "value"],
+    investorFigures(analysis, form.currency, form.language).map(
+      ({ label, value }) => [label, value]
+    )
+  );
+};
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_FORM,
+  ListingSchema,
+  fieldErrors,
+  outputsSchemaFor,
+  type ListingFormState,
+} from "./listing";
+
+const FORM: ListingFormState = {
+  ...EMPTY_FORM,
+  address: "12 Harbor Ln, Newport, RI",
+  price: "$1,250,000",
+  beds: 3,
+  fullBaths: 2,
+  livingArea: 2100,
+  highlights: "Harbor views",
+};
+
+describe("ListingSchema", () => {
+  it("accepts a complete form and fills defaults", () => {
+    const { status, currency, ...form } = FORM;
+    const parsed = ListingSchema.parse(form);
+    expect(parsed.status).toBe(status);
+    expect(parsed.currency).toBe(currency);
+  });
+
+  it("needs highlights, amenities or renovations", () => {
+    expect(fieldErrors({ ...FORM, highlights: " " })).toEqual({
+      highlights: "Pick a few features or describe the highlights",
+    });
+    expect(
+      ListingSchema.safeParse({ ...FORM, highlights: "", amenities: ["pool"] })
+        .success
+    ).toBe(true);
+  });
+
+  it.each([
+    [{ price: "0" }, "price", "Enter a price greater than zero"],
+    [
+      { price: "call agent" },
+      "price",
+      "Enter a price such as 850k, $1.2M or $3,200/mo",
+    ],
+    [{ price: "$900k-$850k" }, "price", "Put the lower price first"],
+    [{ beds: 2.5 }, "beds", "Beds must be a whole number"],
+    [{ fullBaths: -1 }, "fullBaths", "Full baths can't be negative"],
+    [{ yearBuilt: 1650 }, "yearBuilt", "Year built must be 1700 or later"],
+    [
+      { livingArea: 5 },
+      "livingArea",
+      "Living area looks too small — check the unit",
+    ],
+    [
+      { livingArea: 20000, livingAreaUnit: "m2" },
+      "livingArea",
+      "Living area looks too large — check the unit",
+    ],
+    [
+      { lotSize: 2, lotSizeUnit: "sqft" },
+      "lotSize",
+      "Lot size looks too small — did you mean acres?",
+    ],
+    [{ fullBaths: 0, halfBaths: 1 }, "fullBaths", "Add at least one full bath"],
+    [
+      { downPaymentPercent: 120 },
+      "downPaymentPercent",
+      "Down payment can't be more than 100%",
+    ],
+  ] as const)("rejects %o", (patch, field, message) => {
+    expect(fieldErrors({ ...FORM, ...patch })[field]).toBe(message);
+  });
+
+  it("rejects unknown enum values", () => {
+    const parsed = ListingSchema.safeParse({ ...FORM, tone: "spooky" });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["tone"]);
+  });
+
+  it("reports nothing for a valid form", () => {
+    expect(fieldErrors(FORM)).toEqual({});
+  });
+});
+
+describe("rental listings", () => {
+  const RENTAL: ListingFormState = {
+    ...FORM,
+    listingType: "rental",
+    price: "$3,200",
+    deposit: "$3,200",
+    leaseTerm: "twelveMonths",
+    availableDate: "2026-06-01",
+    petPolicy: "catsOnly",
+    utilitiesIncluded: ["water", "trash"],
+  };
+
+  it("accepts lease terms", () => {
+    expect(fieldErrors(RENTAL)).toEqual({});
+  });
+
+  it("ignores the hidden investor inputs", () => {
+    expect(
+      fieldErrors({ ...RENTAL, downPaymentPercent: 120, expectedRent: 0 })
+    ).toEqual({});
+  });
+
+  it("defaults saved forms to sale", () => {
+    const { listingType, ...form } = FORM;
+    expect(ListingSchema.parse(form).listingType).toBe(listingType);
+  });
+
+  it.each([
+    [{ price: "" }, "price", "Enter the monthly rent"],
+    [{ deposit: "first month" }, "deposit", "Enter the deposit as an amount"],
+    [{ availableDate: "June 1" }, "availableDate", "Enter a valid date"],
+  ] as const)("rejects %o", (patch, field, message) => {
+    expect(fieldErrors({ ...RENTAL, ...patch })[field]).toBe(message);
+  });
+});
+
+describe("outputsSchemaFor", () => {
+  const schema = outputsSchemaFor(["heading", "mls"]);
+
+  it("keeps only the requested channels", () => {
+    expect(
+      schema.parse({ heading: "Harbor views", mls: "Three beds.", tiktok: "x" })
+    ).toEqual({ heading: "Harbor views", mls: "Three beds." });
+  });
+
+  it("requires every requested channel", () => {
+    const parsed = schema.safeParse({ heading: "Harbor views" });
+    expect(parsed.error?.issues[0].path).toEqual(["mls"]);
+  });
+});
@@ -0,0 +1,413 @@
+import { z } from "zod";
+import { AMENITY_KEYS } from "./amenities";
+import {
+  CHANNEL_KEYS,
+  DEFAULT_CHANNEL_KEYS,
+  type ChannelKey,
+} from "./channels";
+import { readPrice } from "./format";
+import { ModelIdSchema } from "./models";
+import { LEASE_TERMS, PET_POLICIES, UTILITIES } from "./rental";
+import {
+  AREA_UNITS,
+  CURRENCIES,
+  LIVING_AREA_UNITS,
+  PROPERTY_TYPES,
+  YEAR_BUILT_MIN,
+  toSqft,
+  yearBuiltMax,
+} from "./propertyFields";
+
+// -----------------------------
+// TYPES & VALIDATION
+// -----------------------------
+export const LANGUAGES = ["en", "es", "pt", "fr", "zh"] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+/** Native names, for tabs and pickers. */
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  en: "English",
+  es: "Español",
+  pt: "Português",
+  fr: "Français",
+  zh: "中文",
+};
+
+/** For-sale listings or rental ads; rentals add lease terms. */
+export const LISTING_TYPES = ["sale", "rental"] as const;
+
+export type ListingType = (typeof LISTING_TYPES)[number];
+
+export const LISTING_TYPE_LABELS: Record<ListingType, string> = {
+  sale: "For sale",
+  rental: "For rent",
+};
+
+/** Market status; each change gets its own generated copy. */
+export const LISTING_STATUSES = [
+  "comingSoon",
+  "active",
+  "priceReduced",
+  "pending",
+  "sold",
+] as const;
+
+export type ListingStatus = (typeof LISTING_STATUSES)[number];
+
+export const STATUS_LABELS: Record<ListingStatus, string> = {
+  comingSoon: "Coming Soon",
+  active: "Active",
+  priceReduced: "Price Reduced",
+  pending: "Pending",
+  sold: "Sold",
+};
+
+const RENTAL_STATUS_LABELS: Record<ListingStatus, string> = {
+  ...STATUS_LABELS,
+  priceReduced: "Rent Reduced",
+  pending: "Application Pending",
+  sold: "Leased",
+};
+
+export const statusLabel = (
+  status: ListingStatus,
+  listingType: ListingType = "sale"
+) =>
+  (listingType === "rental" ? RENTAL_STATUS_LABELS : STATUS_LABELS)[status];
+
+const count = (label: string, max: number) =>
+  z
+    .number()
+    .int(`${label} must be a whole number`)
+    .min(0, `${label} can't be negative`)
+    .max(max, `${label} must be ${max} or fewer`)
+    .optional();
+
+const amount = (label: string) =>
+  z.number().min(0, `${label} can't be negative`).optional();
+
+/**
+ * Investor analysis inputs. The panel is hidden for rentals, so stale values
+ * left there must not block the form.
+ */
+const InvestorFieldsSchema = z.object({
+  expectedRent: z
+    .number()
+    .positive("Expected rent must be more than zero")
+    .optional(),
+  annualTaxes: amount("Taxes"),
+  monthlyHoa: amount("HOA dues"),
+  annualInsurance: amount("Insurance"),
+  downPaymentPercent: z
+    .number()
+    .min(0, "Down payment can't be negative")
+    .max(100, "Down payment can't be more than 100%")
+    .optional(),
+  interestRate: z
+    .number()
+    .min(0, "Interest rate can't be negative")
+    .max(25, "Interest rate looks too high")
+    .optional(),
+});
+
+export const ListingSchema = z
+  .object({
+    listingType: z.enum(LISTING_TYPES).default("sale"),
+    propertyType: z.enum(PROPERTY_TYPES),
+    /** Free-text detail such as "Craftsman bungalow". */
+    style: z.string().optional(),
+    address: z.string().optional(),
+    /**
+     * As typed ("850k", "$1.2M", "$3,200/mo"); validated once read. The
+     * monthly rent for rentals.
+     */
+    price: z
+      .string()
+      .optional()
+      .superRefine((v, ctx) => {
+        if (!v?.trim()) return;
+        const price = readPrice(v);
+        const message = !price
+          ? "Enter a price such as 850k, $1.2M or $3,200/mo"
+          : price.amount <= 0
+          ? "Enter a price greater than zero"
+          : price.max !== undefined && price.max < price.amount
+          ? "Put the lower price first"
+          : undefined;
+        if (message) ctx.addIssue({ code: "custom", message });
+      }),
+    currency: z.enum(CURRENCIES).default("USD"),
+    beds: count("Beds", 50),
+    fullBaths: count("Full baths", 50),
+    halfBaths: count("Half baths", 20),
+    livingArea: z.number().positive("Living area must be positive").optional(),
+    livingAreaUnit: z.enum(LIVING_AREA_UNITS).default("sqft"),
+    lotSize: z.number().positive("Lot size must be positive").optional(),
+    lotSizeUnit: z.enum(AREA_UNITS).default("acres"),
+    yearBuilt: z
+      .number()
+      .int("Year built must be a whole year")
+      .min(YEAR_BUILT_MIN, `Year built must be ${YEAR_BUILT_MIN} or later`)
+      .max(yearBuiltMax(), `Year built can't be after ${yearBuiltMax()}`)
+      .optional(),
+    parking: z.string().optional(),
+    neighborhood: z.string().optional(),
+    /** Free text for anything the checklist doesn't cover. */
+    highlights: z.string(),
+    amenities: z.array(z.enum(AMENITY_KEYS)).optional(),
+    renovations: z
+      .array(
+        z.object({
+          area: z.string().trim().min(1, "Name what was renovated"),
+          year: z
+            .number()
+            .int("Renovation year must be a whole year")
+            .min(
+              YEAR_BUILT_MIN,
+              `Renovation year must be ${YEAR_BUILT_MIN} or later`
+            )
+            .max(
+              new Date().getFullYear(),
+              "Renovation year can't be in the future"
+            ),
+        })
+      )
+      .optional(),
+    // Rental terms; ignored for sale listings.
+    deposit: z
+      .string()
+      .optional()
+      .refine((v) => !v?.trim() || readPrice(v) !== undefined, {
+        message: "Enter the deposit as an amount",
+      }),
+    leaseTerm: z.enum(LEASE_TERMS).optional(),
+    /** "YYYY-MM-DD" from the date input. */
+    availableDate: z.iso.date("Enter a valid date").optional(),
+    petPolicy: z.enum(PET_POLICIES).optional(),
+    utilitiesIncluded: z.array(z.enum(UTILITIES)).optional(),
+    /** Screening criteria as the manager writes them; Fair Housing scanned. */
+    applicationRequirements: z.string().optional(),
+    // Investor analysis inputs; range-checked for sales only, see below.
+    /** Monthly rent the buyer could expect. */
+    expectedRent: z.number().optional(),
+    annualTaxes: z.number().optional(),
+    monthlyHoa: z.number().optional(),
+    annualInsurance: z.number().optional(),
+    downPaymentPercent: z.number().optional(),
+    /** Annual percentage rate, e.g. 6.5. */
+    interestRate: z.number().optional(),
+    status: z.enum(LISTING_STATUSES).default("active"),
+    tone: z.enum([
+      "standard",
+      "luxury",
+      "investor",
+      "casual",
+      "hype",
+      "simple",
+    ]),
+    length: z.enum(["short", "medium", "long"]),
+    language: z.enum(LANGUAGES),
+    /** Channels to generate; the registry defaults when absent. */
+    channels: z.array(z.enum(CHANNEL_KEYS)).optional(),
+  })
+  .superRefine((form, ctx) => {
+    if (form.listingType === "rental" && !form.price?.trim()) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["price"],
+        message: "Enter the monthly rent",
+      });
+    }
+    if (form.listingType !== "rental") {
+      const investor = InvestorFieldsSchema.safeParse(form);
+      for (const issue of investor.error?.issues ?? []) {
+        ctx.addIssue({
+          code: "custom",
+          path: issue.path,
+          message: issue.message,
+        });
+      }
+    }
+    if (
+      form.highlights.trim().length < 3 &&
+      !form.amenities?.length &&
+      !form.renovations?.length
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["highlights"],
+        message: "Pick a few features or describe the highlights",
+      });
+    }
+    // Sizes are checked in square feet so a wrong unit gets caught.
+    if (form.livingArea !== undefined) {
+      const sqft = toSqft(form.livingArea, form.livingAreaUnit);
+      if (sqft < 100 || sqft > 100_000) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["livingArea"],
+          message:
+            sqft < 100
+              ? "Living area looks too small — check the unit"
+              : "Living area looks too large — check the unit",
+        });
+      }
+    }
+    if (form.lotSize !== undefined) {
+      const sqft = toSqft(form.lotSize, form.lotSizeUnit);
+      if (sqft < 100) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["lotSize"],
+          message:
+            form.lotSizeUnit === "sqft"
+              ? "Lot size looks too small — did you mean acres?"
+              : "Lot size looks too small — check the unit",
+        });
+      }
+    }
+    if (
+      form.halfBaths &&
+      !form.fullBaths &&
+      form.propertyType !== "land" &&
+      form.propertyType !== "commercial"
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["fullBaths"],
+        message: "Add at least one full bath",
+      });
+    }
+  });
+
+export type ListingFormState = z.infer<typeof ListingSchema>;
+
+export const EMPTY_FORM: ListingFormState = {
+  listingType: "sale",
+  propertyType: "singleFamily",
+  style: "",
+  address: "",
+  price: "",
+  currency: "USD",
+  livingAreaUnit: "sqft",
+  lotSizeUnit: "acres",
+  parking: "",
+  neighborhood: "",
+  highlights: "",
+  amenities: [],
+  renovations: [],
+  utilitiesIncluded: [],
+  status: "active",
+  tone: "luxury",
+  length: "medium",
+  language: "en",
+  channels: DEFAULT_CHANNEL_KEYS,
+};
+
+const outputText = z.string().trim().min(1, "must not be empty");
+
+/** Text per generated channel; which keys are present depends on the form. */
+export const ListingOutputsSchema = z.partialRecord(
+  z.enum(CHANNEL_KEYS),
+  outputText
+);
+
+export type ListingOutputs = z.infer<typeof ListingOutputsSchema>;
+
+/**
+ * Requires the given channels (e.g. the ones a form enabled) and drops
+ * others; the result is still a partial record, as disabled channels are
+ * absent.
+ */
+export const outputsSchemaFor = (keys: readonly ChannelKey[]) =>
+  z
+    .object(Object.fromEntries(keys.map((k) => [k, outputText])))
+    .pipe(ListingOutputsSchema);
+
+export const toneMap: Record<ListingFormState["tone"], string> = {
+  standard: "professional, neutral real estate tone",
+  luxury: "high-end, premium, aspirational luxury tone",
+  investor: "ROI-focused, cash-flow oriented, investor analysis style",
+  casual: "friendly, approachable, conversational tone",
+  hype: "energetic, modern, attention-grabbing tone",
+  simple: "easy-to-read, clear, simple tone",
+};
+
+export const statusMap: Record<ListingStatus, string> = {
+  comingSoon:
+    "coming soon — build anticipation; showings have not started",
+  active: "active — available now",
+  priceReduced:
+    "price reduced — present the new price as an opportunity, without pressure",
+  pending: "pending — under contract; backup offers may still be welcome",
+  sold: "sold — celebrate the sale; do not present the home as available",
+};
+
+export const rentalStatusMap: Record<ListingStatus, string> = {
+  comingSoon:
+    "coming soon — build anticipation; showings and applications have not started",
+  active: "active — available for rent",
+  priceReduced:
+    "rent reduced — present the new rent as an opportunity, without pressure",
+  pending:
+    "application pending — an applicant is being screened; others may still apply",
+  sold:
+    "leased — celebrate the new lease; do not present the unit as available",
+};
+
+/** Main-description word range; other channels scale relative to medium. */
+export const lengthMap: Record<
+  ListingFormState["length"],
+  [min: number, max: number]
+> = {
+  short: [40, 70],
+  medium: [120, 180],
+  long: [220, 300],
+};
+
+export const RewriteRequestSchema = z.object({
+  field: z.enum(CHANNEL_KEYS),
+  instruction: z.string().min(1),
+  text: z.string().min(1),
+  /** System message from the active prompt template version. */
+  system: z.string().min(1).optional(),
+  /** "provider:model"; the server default otherwise. */
+  model: ModelIdSchema.optional(),
+});
+
+export type RewriteRequest = z.infer<typeof RewriteRequestSchema>;
+
+export const TranslateRequestSchema = z.object({
+  outputs: ListingOutputsSchema,
+  from: z.enum(LANGUAGES),
+  to: z.enum(LANGUAGES),
+  model: ModelIdSchema.optional(),
+});
+
+export type TranslateRequest = z.infer<typeof TranslateRequestSchema>;
+
+/** One entry per failed field, e.g. "tiktok: Invalid input: expected string, received array". */
+export const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .map((issue) => `${issue.path.join(".") || "response"}: ${issue.message}`)
+    .join("; ");
+
+/** First message per top-level field, for inline form errors. */
+export const fieldErrors = (form: unknown) => {
+  const parsed = ListingSchema.safeParse(form);
+  const errors: Partial<Record<keyof ListingFormState, string>> = {};
+  if (parsed.success) return errors;
+  for (const issue of parsed.error.issues) {
+    const key = issue.path[0] as keyof ListingFormState | undefined;
+    if (key && !errors[key]) errors[key] = issue.message;
+  }
+  return errors;
+};
+
+/** Newline-delimited events sent by /api/generate/stream. */
+export type GenerateStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "retry"; issues: string }
+  | { type: "done"; outputs: ListingOutputs }
+  | { type: "error"; error: string };
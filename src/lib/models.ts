@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+// -----------------------------
+// PROVIDERS & MODEL IDS
+// -----------------------------
+export const LLM_PROVIDERS = ["openai", "local", "mock"] as const;
+
+export type ProviderId = (typeof LLM_PROVIDERS)[number];
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  openai: "OpenAI",
+  local: "Local server",
+  mock: "Offline mock",
+};
+
+/** "provider:model", e.g. "openai:gpt-4o-mini" or "local:llama3.1". */
+export const ModelIdSchema = z
+  .string()
+  .regex(/^(openai|local|mock):.+$/, "expected provider:model");
+
+export type ModelId = `${ProviderId}:${string}`;
+
+export type ModelOption = {
+  id: ModelId;
+  provider: ProviderId;
+  name: string;
+};
+
+export const modelId = (provider: ProviderId, name: string): ModelId =>
+  `${provider}:${name}`;
+
+export const parseModelId = (id: string) => {
+  const sep = id.indexOf(":");
+  const provider = id.slice(0, sep) as ProviderId;
+  if (sep < 0 || !LLM_PROVIDERS.includes(provider)) return null;
+  return { provider, name: id.slice(sep + 1) };
+};
+
+/** "gpt-4o-mini · OpenAI"; unknown ids are shown as stored. */
+export const modelLabel = (id: string) => {
+  const parsed = parseModelId(id);
+  return parsed ? `${parsed.name} · ${PROVIDER_LABELS[parsed.provider]}` : id;
+};
+
+/** GET /api/models: what the server is configured to run. */
+export type ModelsResponse = {
+  models: ModelOption[];
+  default: ModelId;
+};
+
+export const MODEL_KEY = "luxlist-model";
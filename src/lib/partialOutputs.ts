@@ -0,0 +1,72 @@
+import { CHANNEL_KEYS, type ChannelKey } from "./channels";
+import type { ListingOutputs } from "./listing";
+
+// -----------------------------
+// PARTIAL JSON EXTRACTION
+// -----------------------------
+export type SectionStatus = "pending" | "streaming" | "done";
+
+export type PartialOutputs = {
+  values: ListingOutputs;
+  status: Partial<Record<ChannelKey, SectionStatus>>;
+};
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Reads a JSON string body starting just after its opening quote. Stops at
+ * the closing quote or, for a still-streaming string, at the end of input.
+ */
+const readString = (raw: string, from: number) => {
+  let text = "";
+  for (let i = from; i < raw.length; i++) {
+    const c = raw[i];
+    if (c === '"') return { text, closed: true };
+    if (c !== "\\") {
+      text += c;
+      continue;
+    }
+    const next = raw[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = raw.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      text += ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return { text, closed: false };
+};
+
+/** Pulls whatever of `keys` is readable from a truncated JSON object. */
+export const parsePartialOutputs = (
+  raw: string,
+  keys: readonly ChannelKey[] = CHANNEL_KEYS
+): PartialOutputs => {
+  const values: ListingOutputs = {};
+  const status = Object.fromEntries(
+    keys.map((k) => [k, "pending"])
+  ) as PartialOutputs["status"];
+
+  for (const field of keys) {
+    const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(raw);
+    if (!match) continue;
+    const { text, closed } = readString(raw, match.index + match[0].length);
+    values[field] = text;
+    status[field] = closed ? "done" : "streaming";
+  }
+
+  return { values, status };
+};
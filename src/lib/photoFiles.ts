@@ -0,0 +1,16 @@
+import type { Photo } from "./photos";
+
+/** Longest edge sent for analysis; enough to spot finishes, small to upload. */
+const MAX_EDGE = 768;
+
+/** Downscales an image file to a JPEG data URL in the browser. */
+export const readPhoto = async (file: File): Promise<Photo> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return { name: file.name, dataUrl: canvas.toDataURL("image/jpeg", 0.8) };
+};
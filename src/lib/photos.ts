@@ -0,0 +1,141 @@
+import { z } from "zod";
+
+// -----------------------------
+// TYPES & VALIDATION
+// -----------------------------
+export const MAX_PHOTOS = 12;
+
+export const PhotoSchema = z.object({
+  name: z.string(),
+  /** Downscaled in the browser before it's sent anywhere. */
+  dataUrl: z.string().startsWith("data:image/"),
+});
+
+export type Photo = z.infer<typeof PhotoSchema>;
+
+export const PhotoAnalysisRequestSchema = z.object({
+  photos: z.array(PhotoSchema).min(1).max(MAX_PHOTOS),
+});
+
+export type PhotoAnalysisRequest = z.infer<typeof PhotoAnalysisRequestSchema>;
+
+export const FeatureSuggestionSchema = z.object({
+  label: z.string().trim().min(1),
+  /** Indexes of the photos that show the feature. */
+  photos: z.array(z.number().int().min(0)),
+  confidence: z.number().min(0).max(1),
+});
+
+export type FeatureSuggestion = z.infer<typeof FeatureSuggestionSchema>;
+
+export const FeatureSuggestionsSchema = z.object({
+  features: z.array(FeatureSuggestionSchema),
+});
+
+// -----------------------------
+// PROVIDER CONTRACT
+// -----------------------------
+/** Anything that can spot marketable features in listing photos. */
+export interface VisionProvider {
+  suggestFeatures(
+    photos: Photo[],
+    signal?: AbortSignal
+  ): Promise<FeatureSuggestion[]>;
+}
+
+export const PHOTO_ANALYSIS_SYSTEM =
+  "You are a real estate photo analyst. You list visible, marketable property features only. You never describe people, belongings or who might live in the home, following Fair Housing laws.";
+
+export const buildPhotoAnalysisPrompt = (count: number) =>
+  `
+The ${count} attached listing photos are numbered 0 to ${count - 1} in order.
+List the features a buyer would care about that are clearly visible, such as "quartz counters", "vaulted ceilings" or "pool".
+
+Rules:
+- Labels are 1–4 words, lowercase unless a proper noun.
+- Only include what you can see; don't guess at hidden features.
+- Give each feature a confidence from 0 to 1.
+
+Return JSON with ONLY this shape:
+{"features": [{"label": "...", "photos": [0], "confidence": 0.9}]}
+`.trim();
+
+// -----------------------------
+// SUGGESTIONS
+// -----------------------------
+const normalizeLabel = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/** One entry per feature across photos, most confident first. */
+export const mergeSuggestions = (suggestions: FeatureSuggestion[]) => {
+  const byLabel = new Map<string, FeatureSuggestion>();
+  for (const s of suggestions) {
+    const key = normalizeLabel(s.label);
+    const existing = byLabel.get(key);
+    byLabel.set(
+      key,
+      existing
+        ? {
+            label: existing.label,
+            photos: [...new Set([...existing.photos, ...s.photos])],
+            confidence: Math.max(existing.confidence, s.confidence),
+          }
+        : s
+    );
+  }
+  return [...byLabel.values()].sort((a, b) => b.confidence - a.confidence);
+};
+
+/** Suggestions the highlights don't mention yet. */
+export const pendingSuggestions = (
+  suggestions: FeatureSuggestion[],
+  highlights: string
+) => {
+  const text = ` ${normalizeLabel(highlights)} `;
+  return suggestions.filter(
+    (s) => !text.includes(` ${normalizeLabel(s.label)} `)
+  );
+};
+
+/** Appends a feature to the free-text highlights as a comma list. */
+export const appendHighlight = (highlights: string, label: string) => {
+  const trimmed = highlights.trim().replace(/[,;]+$/, "");
+  return trimmed ? `${trimmed}, ${label}` : label;
+};
+
+// -----------------------------
+// MOCK PROVIDER
+// -----------------------------
+const MOCK_FEATURES: [RegExp, string[]][] = [
+  [/kitchen/i, ["quartz counters", "kitchen island", "stainless appliances"]],
+  [/bath/i, ["walk-in shower", "double vanity"]],
+  [/living|family|great.?room/i, ["vaulted ceilings", "hardwood floors"]],
+  [/bed/i, ["walk-in closet", "natural light"]],
+  [/pool|yard|patio|garden|exterior|outdoor/i, ["pool", "covered patio"]],
+  [/view/i, ["panoramic views"]],
+  [/garage/i, ["attached garage"]],
+];
+
+const MOCK_FALLBACK = ["natural light", "open floor plan", "updated finishes"];
+
+/**
+ * Deterministic stand-in for a vision model: features come from each photo's
+ * file name, so demos and tests need no network.
+ */
+export const createMockVisionProvider = (): VisionProvider => ({
+  async suggestFeatures(photos) {
+    return mergeSuggestions(
+      photos.flatMap((photo, index) => {
+        const labels = MOCK_FEATURES.filter(([re]) => re.test(photo.name))
+          .flatMap(([, features]) => features);
+        return (
+          labels.length ? labels : [MOCK_FALLBACK[index % MOCK_FALLBACK.length]]
+        ).map((label, i) => ({
+          label,
+          photos: [index],
+          confidence: Math.max(0.5, 0.9 - i * 0.1),
+        }));
+      })
+    );
+  },
+});
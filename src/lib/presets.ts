@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { CHANNEL_KEYS } from "./channels";
+
+// -----------------------------
+// REWRITE PRESETS
+// -----------------------------
+export const RewritePresetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  instruction: z.string().trim().min(1),
+  fields: z.array(z.enum(CHANNEL_KEYS)).min(1),
+});
+
+export type RewritePreset = z.infer<typeof RewritePresetSchema>;
+
+const PresetFileSchema = z.object({
+  version: z.literal(1),
+  presets: z.array(RewritePresetSchema),
+});
+
+export const serializePresets = (presets: RewritePreset[]) =>
+  JSON.stringify({ version: 1, presets }, null, 2);
+
+/** Throws with a readable message when the file is not a preset export. */
+export const parsePresetFile = (text: string): RewritePreset[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("Preset file is not valid JSON.");
+  }
+  const parsed = PresetFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error("Preset file is not a LuxList preset export.");
+  }
+  return parsed.data.presets;
+};
+
+/** Imported presets replace existing ones with the same id. */
+export const mergePresets = (
+  current: RewritePreset[],
+  incoming: RewritePreset[]
+) => {
+  const ids = new Set(incoming.map((p) => p.id));
+  return [...current.filter((p) => !ids.has(p.id)), ...incoming];
+};
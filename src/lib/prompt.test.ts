@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_FORM, ListingSchema, type ListingFormState } from "./listing";
+import { buildGeneratePrompt, buildRewritePrompt } from "./prompt";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  templateWarnings,
+  type PromptTemplate,
+} from "./promptTemplate";
+
+const FORM: ListingFormState = {
+  ...EMPTY_FORM,
+  propertyType: "singleFamily",
+  address: "123 Ocean View Dr, Malibu, CA",
+  price: "4250000",
+  beds: 4,
+  fullBaths: 3,
+  halfBaths: 1,
+  livingArea: 3200,
+  highlights: "Ocean views, chef's kitchen, infinity pool",
+  amenities: ["quartzCounters", "pool", "oceanView"],
+  renovations: [{ area: "Kitchen", year: 2022 }],
+};
+
+const TONES = ListingSchema.shape.tone.options;
+const LENGTHS = ListingSchema.shape.length.options;
+const LANGUAGES = ListingSchema.shape.language.options;
+
+const COMBINATIONS = TONES.flatMap((tone) =>
+  LENGTHS.flatMap((length) =>
+    LANGUAGES.map((language) => ({ tone, length, language }))
+  )
+);
+
+describe("buildGeneratePrompt", () => {
+  it.each(COMBINATIONS)(
+    "tone=$tone length=$length language=$language",
+    (settings) => {
+      expect(buildGeneratePrompt({ ...FORM, ...settings })).toMatchSnapshot();
+    }
+  );
+
+  it("scales channel word ranges with length", () => {
+    const short = buildGeneratePrompt({ ...FORM, length: "short" });
+    const long = buildGeneratePrompt({ ...FORM, length: "long" });
+    expect(buildGeneratePrompt(FORM)).toContain("- 120–160 words");
+    expect(short).not.toContain("- 120–160 words");
+    expect(long).not.toContain("- 120–160 words");
+  });
+
+  it("only asks for the enabled channels", () => {
+    const prompt = buildGeneratePrompt({ ...FORM, channels: ["printAd"] });
+    expect(prompt).toContain(`"heading", "printAd".`);
+    expect(prompt).toContain("- At most 200 characters including spaces");
+    expect(prompt).not.toContain("mls:");
+  });
+});
+
+describe("rental prompts", () => {
+  const RENTAL: ListingFormState = {
+    ...FORM,
+    listingType: "rental",
+    price: "12000",
+    leaseTerm: "twelveMonths",
+    availableDate: "2026-06-01",
+    petPolicy: "caseByCase",
+    utilitiesIncluded: ["water", "internet"],
+    channels: ["zillow", "printAd"],
+  };
+
+  it("gives the monthly rent and lease terms", () => {
+    const prompt = buildGeneratePrompt(RENTAL);
+    expect(prompt).toContain("Listing Type: For rent");
+    expect(prompt).toContain("Monthly Rent: $12,000/mo");
+    expect(prompt).toContain("- Lease Term: 12 months");
+    expect(prompt).toContain("- Available: June 1, 2026");
+    expect(prompt).toContain("- Utilities Included: Water, Internet");
+    expect(prompt).toMatch(/source of income/);
+  });
+
+  it("uses the rental channel copy", () => {
+    const prompt = buildGeneratePrompt(RENTAL);
+    expect(prompt).toContain("- Rental portal listing");
+    expect(prompt).toContain('- Newspaper classified "For Rent" ad');
+    expect(buildGeneratePrompt(FORM)).not.toContain("Rental");
+  });
+
+  it("keeps channel prompts the template changed", () => {
+    const template: PromptTemplate = {
+      ...DEFAULT_PROMPT_TEMPLATE,
+      channels: {
+        ...DEFAULT_PROMPT_TEMPLATE.channels,
+        zillow: "zillow:\n- Our house style",
+      },
+    };
+    expect(buildGeneratePrompt(RENTAL, template)).toContain(
+      "- Our house style"
+    );
+  });
+});
+
+describe("investor analysis", () => {
+  const INVESTOR: ListingFormState = {
+    ...FORM,
+    tone: "investor",
+    expectedRent: 15000,
+    annualTaxes: 50000,
+    downPaymentPercent: 30,
+    interestRate: 6.5,
+  };
+
+  it("gives investor-tone prompts the computed figures", () => {
+    const prompt = buildGeneratePrompt(INVESTOR);
+    expect(prompt).toContain("Investor Analysis");
+    expect(prompt).toMatch(/- Cap Rate: \d+\.\d%/);
+    expect(prompt).toContain("- Financing: 30% down at 6.5%, 30-year fixed");
+  });
+
+  it("leaves other tones alone", () => {
+    const prompt = buildGeneratePrompt({ ...INVESTOR, tone: "luxury" });
+    expect(prompt).not.toContain("Investor Analysis");
+  });
+});
+
+describe("prompt templates", () => {
+  const custom: PromptTemplate = {
+    ...DEFAULT_PROMPT_TEMPLATE,
+    version: 2,
+    body: "Tone {{tone}} / {{length}}\n{{channel.mls}}\n{{details}}",
+    channels: {
+      ...DEFAULT_PROMPT_TEMPLATE.channels,
+      mls: "mls: {{words}} words, {{ unknown }}",
+    },
+  };
+
+  it("renders variables and per-channel blocks", () => {
+    const prompt = buildGeneratePrompt({ ...FORM, length: "short" }, custom);
+    expect(prompt.split("\n").slice(0, 3)).toEqual([
+      "Tone high-end, premium, aspirational luxury tone / short",
+      "mls: 45–60 words, {{ unknown }}",
+      "Property Type: Single-family home",
+    ]);
+  });
+
+  it("does not expand variables inside form values", () => {
+    const prompt = buildGeneratePrompt(
+      { ...FORM, highlights: "Pool {{channels}}" },
+      custom
+    );
+    expect(prompt).toContain("Highlights: Pool {{channels}}");
+  });
+
+  it("warns about unknown and missing variables", () => {
+    expect(templateWarnings(DEFAULT_PROMPT_TEMPLATE)).toEqual([]);
+    expect(templateWarnings(custom)).toEqual([
+      "Body: without {{keys}} the model isn't told which channels to return.",
+      "mls: unknown variable {{unknown}}",
+    ]);
+  });
+});
+
+describe("buildRewritePrompt", () => {
+  it("asks for the same language and a single key", () => {
+    expect(
+      buildRewritePrompt({
+        field: "social",
+        instruction: "Make it shorter",
+        text: "Vive junto al mar.",
+      })
+    ).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,211 @@
+import { amenityLines, formatRenovations } from "./amenities";
+import { channelSpecs } from "./channelRules";
+import {
+  CHANNEL_KEYS,
+  enabledChannelKeys,
+  type ChannelKey,
+  type ChannelSpec,
+  type Range,
+} from "./channels";
+import {
+  rentalStatusMap,
+  statusMap,
+  toneMap,
+  type Language,
+  type ListingFormState,
+  type RewriteRequest,
+  type TranslateRequest,
+} from "./listing";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  channelPrompt,
+  renderTemplate,
+  type PromptTemplate,
+} from "./promptTemplate";
+import { investorLines } from "./investor";
+import { RENTAL_FAIR_HOUSING_RULES, rentalTermLines } from "./rental";
+import {
+  formFieldText,
+  formatPropertyType,
+  type TextFields,
+} from "./propertyFields";
+
+// -----------------------------
+// SYSTEM MESSAGES
+// -----------------------------
+export const TRANSLATE_SYSTEM =
+  "You are a bilingual real estate copywriter who localizes listing copy for local buyers while preserving every fact and Fair Housing compliance.";
+
+/** English names, as the model is instructed in English. */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  es: "Spanish",
+  pt: "Portuguese",
+  fr: "French",
+  zh: "Simplified Chinese",
+};
+
+// -----------------------------
+// GENERATE PROMPT
+// -----------------------------
+const range = ([min, max]: Range) => `${min}–${max}`;
+
+const fact = (data: ListingFormState, field: keyof TextFields) =>
+  formFieldText(data, field) || "N/A";
+
+/** Checklist picks grouped by category, as "- Kitchen: …" lines. */
+const featureList = (data: ListingFormState) =>
+  amenityLines(data.amenities)
+    .map((line) => `- ${line}`)
+    .join("\n") || "- N/A";
+
+/** Lease terms and the rental Fair Housing rules; empty for sales. */
+const rentalDetails = (data: ListingFormState) => {
+  if (data.listingType !== "rental") return "";
+  const terms = rentalTermLines(data);
+  return `
+Rental Terms:
+${terms.map((line) => `- ${line}`).join("\n") || "- N/A"}
+Fair Housing (rentals):
+${RENTAL_FAIR_HOUSING_RULES.map((rule) => `- ${rule}`).join("\n")}`;
+};
+
+/** Calculator figures for investor-tone copy; empty otherwise. */
+const investorDetails = (data: ListingFormState) => {
+  const lines = data.tone === "investor" && investorLines(data);
+  if (!lines) return "";
+  return `
+Investor Analysis (computed from the inputs; quote these figures exactly and do not invent other returns):
+${lines.map((line) => `- ${line}`).join("\n")}`;
+};
+
+/** Normalized facts, so "3.5" baths or "m²" reach the model unambiguously. */
+export const buildDetails = (data: ListingFormState) => {
+  const rental = data.listingType === "rental";
+  const extra = rentalDetails(data) + investorDetails(data);
+  return `
+${rental ? "Listing Type: For rent\n" : ""}Property Type: ${formatPropertyType(data)}
+Address: ${fact(data, "address")}
+${rental ? "Monthly Rent" : "Price"}: ${fact(data, "price")}
+Listing Status: ${(rental ? rentalStatusMap : statusMap)[data.status]}
+Beds: ${fact(data, "beds")}
+Baths: ${fact(data, "baths")}
+Living Area: ${fact(data, "livingArea")}
+Lot Size: ${fact(data, "lotSize")}
+Year Built: ${fact(data, "yearBuilt")}
+Parking: ${fact(data, "parking")}
+Neighborhood: ${fact(data, "neighborhood")}
+Features:
+${featureList(data)}
+Recent Renovations: ${formatRenovations(data.renovations) || "N/A"}
+Highlights: ${data.highlights.trim() || "N/A"}${extra}
+`.trim();
+};
+
+const channelVariables = (
+  data: ListingFormState,
+  spec: ChannelSpec
+): Record<string, string> => {
+  const vars: Record<string, string> = {
+    tone: toneMap[data.tone],
+    length: data.length,
+    language: LANGUAGE_NAMES[data.language],
+  };
+  if (spec.words) vars.words = range(spec.words);
+  if (spec.sentences) vars.sentences = range(spec.sentences);
+  if (spec.hashtags) vars.hashtags = range(spec.hashtags);
+  if (spec.bullets) vars.bullets = range(spec.bullets);
+  if (spec.maxEmojis !== undefined) vars.maxEmojis = String(spec.maxEmojis);
+  if (spec.maxChars !== undefined) vars.maxChars = String(spec.maxChars);
+  return vars;
+};
+
+/** `"heading", "mls", …` as listed in the prompt. */
+const keyList = (keys: readonly string[]) =>
+  keys.map((k) => `"${k}"`).join(", ");
+
+/** Blocks for the form's enabled channels, scaled to the Length setting. */
+export const buildChannelBlocks = (
+  data: ListingFormState,
+  template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE
+) => {
+  const specs = channelSpecs(data.length, data.listingType);
+  return Object.fromEntries(
+    enabledChannelKeys(data.channels).map((key) => [
+      key,
+      renderTemplate(
+        channelPrompt(template, key, data.listingType),
+        channelVariables(data, specs[key])
+      ).trim(),
+    ])
+  ) as Partial<Record<ChannelKey, string>>;
+};
+
+export const buildGeneratePrompt = (
+  data: ListingFormState,
+  template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE
+) => {
+  const blocks = buildChannelBlocks(data, template);
+
+  return renderTemplate(template.body, {
+    details: buildDetails(data),
+    tone: toneMap[data.tone],
+    length: data.length,
+    language: LANGUAGE_NAMES[data.language],
+    keys: keyList(Object.keys(blocks)),
+    channels: Object.values(blocks).join("\n\n"),
+    // Disabled channels render empty so custom bodies can list every block.
+    ...Object.fromEntries(
+      CHANNEL_KEYS.map((k) => [`channel.${k}`, blocks[k] ?? ""])
+    ),
+  }).trim();
+};
+
+export const buildRepairPrompt = (
+  issues: string,
+  keys: readonly ChannelKey[]
+) =>
+  `
+Your previous response did not match the required format.
+Problems: ${issues}
+
+Return the COMPLETE JSON again with ALL of these keys, each a non-empty plain string (no arrays or objects):
+${keyList(keys)}.
+`.trim();
+
+// -----------------------------
+// REWRITE PROMPT
+// -----------------------------
+export const buildRewritePrompt = ({
+  field,
+  instruction,
+  text,
+}: RewriteRequest) =>
+  `
+You are a senior real estate copywriter.
+Rewrite the existing ${field} text below according to the instruction.
+Keep it in the same language as the existing text.
+
+Instruction: ${instruction}
+
+Return JSON with ONLY this key: "${field}".
+
+Existing text:
+"""${text}"""
+`.trim();
+
+// -----------------------------
+// TRANSLATE PROMPT
+// -----------------------------
+export const buildTranslatePrompt = ({ outputs, from, to }: TranslateRequest) =>
+  `
+Localize the approved ${LANGUAGE_NAMES[from]} listing copy below into ${LANGUAGE_NAMES[to]}.
+Keep every fact, number, and feature exactly as given. Do not add new claims.
+Adapt idioms and phrasing so it reads as if written natively in ${LANGUAGE_NAMES[to]}, keeping each field's format (hashtags, bullet points, emojis).
+
+Return JSON with ONLY these keys, each translated:
+${keyList(Object.keys(outputs))}.
+
+Approved copy:
+${JSON.stringify(outputs, null, 2)}
+`.trim();
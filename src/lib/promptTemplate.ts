@@ -0,0 +1,174 @@
+import { z } from "zod";
+import {
+  CHANNELS,
+  CHANNEL_KEYS,
+  channelFor,
+  getChannel,
+  type ChannelKey,
+} from "./channels";
+import { ListingSchema, type ListingType } from "./listing";
+import { ModelIdSchema } from "./models";
+
+// -----------------------------
+// TYPES & VALIDATION
+// -----------------------------
+export const PromptTemplateSchema = z.object({
+  version: z.number().int().min(1),
+  name: z.string().trim().min(1),
+  createdAt: z.string(),
+  generateSystem: z.string().trim().min(1),
+  rewriteSystem: z.string().trim().min(1),
+  /** The user message; `{{channels}}` expands to the blocks below. */
+  body: z.string().trim().min(1),
+  /** Channels missing here (e.g. added after saving) use the registry prompt. */
+  channels: z.partialRecord(z.enum(CHANNEL_KEYS), z.string().trim().min(1)),
+});
+
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+
+/**
+ * Body of /api/generate(/stream): the form plus the template to render and
+ * the model to run it on.
+ */
+export const GenerateRequestSchema = ListingSchema.extend({
+  template: PromptTemplateSchema.optional(),
+  model: ModelIdSchema.optional(),
+});
+
+export type GenerateRequest = z.infer<typeof GenerateRequestSchema>;
+
+export const PROMPT_TEMPLATES_KEY = "luxlist-prompt-templates-v1";
+
+export type StoredPromptTemplates = {
+  active: number;
+  versions: PromptTemplate[];
+};
+
+// -----------------------------
+// VARIABLES
+// -----------------------------
+export const BODY_VARIABLES = [
+  "details",
+  "tone",
+  "length",
+  "language",
+  "keys",
+  "channels",
+  ...CHANNEL_KEYS.map((k) => `channel.${k}`),
+];
+
+/** Channel specs at the current Length; ranges render as "120–160". */
+export const CHANNEL_VARIABLES = [
+  "words",
+  "sentences",
+  "hashtags",
+  "bullets",
+  "maxEmojis",
+  "maxChars",
+  "tone",
+  "length",
+  "language",
+];
+
+const VARIABLE_RE = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/** Single pass, so values (e.g. pasted highlights) are never re-expanded. */
+export const renderTemplate = (text: string, vars: Record<string, string>) =>
+  text.replace(VARIABLE_RE, (match, name: string) => vars[name] ?? match);
+
+const unknownVariables = (text: string, known: string[]) =>
+  [...text.matchAll(VARIABLE_RE)]
+    .map((m) => m[1])
+    .filter((name) => !known.includes(name));
+
+/**
+ * Rentals use the registry's rental prompt unless the template changed the
+ * channel's sale prompt; an edited prompt is used for both listing types.
+ */
+export const channelPrompt = (
+  template: PromptTemplate,
+  key: ChannelKey,
+  listingType: ListingType = "sale"
+) => {
+  const prompt = template.channels[key] ?? getChannel(key).prompt;
+  return prompt === getChannel(key).prompt
+    ? channelFor(key, listingType).prompt
+    : prompt;
+};
+
+/** Problems worth showing before a version is saved; never blocks saving. */
+export const templateWarnings = (template: PromptTemplate) => {
+  const warnings: string[] = [];
+
+  for (const name of unknownVariables(template.body, BODY_VARIABLES)) {
+    warnings.push(`Body: unknown variable {{${name}}}`);
+  }
+  if (!template.body.includes("{{details}}")) {
+    warnings.push(
+      "Body: {{details}} is missing, so the model won't see the property."
+    );
+  }
+  if (
+    !template.body.includes("{{channels}}") &&
+    !template.body.includes("{{channel.")
+  ) {
+    warnings.push("Body: include {{channels}} or {{channel.*}} blocks.");
+  }
+  if (!template.body.includes("{{keys}}")) {
+    warnings.push(
+      "Body: without {{keys}} the model isn't told which channels to return."
+    );
+  }
+  for (const key of CHANNEL_KEYS) {
+    for (const name of unknownVariables(
+      channelPrompt(template, key),
+      CHANNEL_VARIABLES
+    )) {
+      warnings.push(`${key}: unknown variable {{${name}}}`);
+    }
+  }
+  return warnings;
+};
+
+// -----------------------------
+// DEFAULT (version 1)
+// -----------------------------
+const DEFAULT_BODY = `You are a senior real estate listing copywriter with 20+ years experience.
+You ONLY write text descriptions (NOT links, NOT MLS numbers, NOT emails).
+You ALWAYS follow Fair Housing laws.
+
+Write listing copy for each field below for the following property, using the details provided.
+
+TONE: {{tone}}. Use this tone in every field.
+LANGUAGE: Write every field in {{language}}. Keep the JSON keys in English.
+
+Return your response as JSON with ONLY these keys:
+{{keys}}.
+
+### THE PURPOSE OF EACH FIELD:
+
+{{channels}}
+
+### PROPERTY DETAILS:
+{{details}}`;
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  version: 1,
+  name: "Default",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  generateSystem:
+    "You are a top-tier real estate listing copywriter. You ALWAYS follow Fair Housing rules and never reference protected classes.",
+  rewriteSystem:
+    "You are an expert at rewriting real estate marketing copy while preserving key details and Fair Housing compliance.",
+  body: DEFAULT_BODY,
+  channels: Object.fromEntries(CHANNELS.map((c) => [c.key, c.prompt])),
+};
+
+// -----------------------------
+// VERSIONS
+// -----------------------------
+export const nextTemplateVersion = (versions: PromptTemplate[]) =>
+  Math.max(0, ...versions.map((t) => t.version)) + 1;
+
+export const findTemplate = (versions: PromptTemplate[], version?: number) =>
+  versions.find((t) => t.version === version) ?? DEFAULT_PROMPT_TEMPLATE;
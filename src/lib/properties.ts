@@ -0,0 +1,102 @@
+import type { HistoryItem } from "./history";
+import type { ListingStatus } from "./listing";
+
+// -----------------------------
+// TYPES
+// -----------------------------
+/** Every generation for one home, grouped by normalized address. */
+export type Property = {
+  /** Normalized address, or `item:<id>` for entries without one. */
+  key: string;
+  address: string;
+  /** Newest first. */
+  items: HistoryItem[];
+};
+
+export type TimelineEntry = {
+  item: HistoryItem;
+  /** Status before this entry; absent on the first one or when unchanged. */
+  previousStatus?: ListingStatus;
+};
+
+// -----------------------------
+// ADDRESS KEYS
+// -----------------------------
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  drive: "dr",
+  road: "rd",
+  boulevard: "blvd",
+  lane: "ln",
+  court: "ct",
+  place: "pl",
+  terrace: "ter",
+  parkway: "pkwy",
+  highway: "hwy",
+  circle: "cir",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+  apartment: "unit",
+  apt: "unit",
+  suite: "unit",
+  ste: "unit",
+};
+
+/** "123 Ocean View Drive, Apt #4" and "123 ocean view dr unit 4" match. */
+export const normalizeAddress = (address: string) =>
+  address
+    .toLowerCase()
+    .replace(/#/g, " unit ")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ADDRESS_ABBREVIATIONS[word] ?? word)
+    .join(" ")
+    .replace(/\bunit unit\b/g, "unit");
+
+export const propertyKey = (item: HistoryItem) =>
+  normalizeAddress(item.form.address ?? "") || `item:${item.id}`;
+
+// -----------------------------
+// GROUPING
+// -----------------------------
+const newestFirst = (a: HistoryItem, b: HistoryItem) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+/**
+ * Properties in the order their first entry appears in `history`, so a
+ * sorted list stays sorted; each property's items are newest first.
+ */
+export const groupProperties = (history: HistoryItem[]): Property[] => {
+  const byKey = new Map<string, Property>();
+
+  for (const item of history) {
+    const key = propertyKey(item);
+    const property = byKey.get(key);
+    if (property) {
+      property.items.push(item);
+    } else {
+      byKey.set(key, { key, address: item.form.address ?? "", items: [item] });
+    }
+  }
+  const properties = [...byKey.values()];
+  for (const property of properties) property.items.sort(newestFirst);
+  return properties;
+};
+
+export const latestItem = (property: Property) => property.items[0];
+
+export const currentStatus = (property: Property) =>
+  latestItem(property).form.status;
+
+/** Oldest first, marking the entries where the status changed. */
+export const propertyTimeline = (property: Property): TimelineEntry[] =>
+  [...property.items].reverse().map((item, i, items) => {
+    const previous = items[i - 1]?.form.status;
+    return previous && previous !== item.form.status
+      ? { item, previousStatus: previous }
+      : { item };
+  });
@@ -0,0 +1,266 @@
+import { formatPrice } from "./format";
+import type { ListingFormState } from "./listing";
+
+// -----------------------------
+// ENUMS
+// -----------------------------
+export const PROPERTY_TYPES = [
+  "singleFamily",
+  "condo",
+  "townhouse",
+  "multiFamily",
+  "manufactured",
+  "land",
+  "commercial",
+  "other",
+] as const;
+
+export type PropertyType = (typeof PROPERTY_TYPES)[number];
+
+export const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  singleFamily: "Single-family home",
+  condo: "Condo",
+  townhouse: "Townhouse",
+  multiFamily: "Multi-family",
+  manufactured: "Manufactured home",
+  land: "Land",
+  commercial: "Commercial",
+  other: "Other",
+};
+
+export const AREA_UNITS = ["sqft", "acres", "m2"] as const;
+
+export type AreaUnit = (typeof AREA_UNITS)[number];
+
+/** Acres make no sense for floor area. */
+export const LIVING_AREA_UNITS = ["sqft", "m2"] as const;
+
+export const AREA_UNIT_LABELS: Record<AreaUnit, string> = {
+  sqft: "sq ft",
+  acres: "acres",
+  m2: "m²",
+};
+
+const SQFT_PER_UNIT: Record<AreaUnit, number> = {
+  sqft: 1,
+  acres: 43_560,
+  m2: 10.7639,
+};
+
+export const toSqft = (value: number, unit: AreaUnit) =>
+  value * SQFT_PER_UNIT[unit];
+
+export const CURRENCIES = ["USD", "EUR", "MXN", "CAD"] as const;
+
+export type Currency = (typeof CURRENCIES)[number];
+
+export const YEAR_BUILT_MIN = 1700;
+
+/** Allows homes still under construction. */
+export const yearBuiltMax = () => new Date().getFullYear() + 3;
+
+// -----------------------------
+// TEXT → TYPED VALUES
+// -----------------------------
+/** Fields that arrive as free text from imports, CSVs and old saves. */
+export type TextFields = Partial<
+  Record<
+    | "propertyType"
+    | "address"
+    | "price"
+    | "beds"
+    | "baths"
+    | "livingArea"
+    | "lotSize"
+    | "yearBuilt"
+    | "parking"
+    | "neighborhood"
+    | "highlights",
+    string
+  >
+>;
+
+const firstNumber = (text: string) => {
+  const m = text.replace(/,/g, "").match(/\d+(?:\.\d+)?/);
+  return m ? Number(m[0]) : undefined;
+};
+
+/** Checked in order, so "condo townhouse" counts as a townhouse. */
+const TYPE_PATTERNS: [PropertyType, RegExp][] = [
+  ["multiFamily", /multi|duplex|triplex|fourplex|quadplex|\d-?unit/i],
+  ["townhouse", /town\s?(house|home)|row\s?house/i],
+  ["condo", /condo|apartment|\bapt\b|loft|co-?op/i],
+  ["manufactured", /manufactured|mobile/i],
+  ["land", /\bland\b|\blot\b|acreage/i],
+  ["commercial", /commercial|office|retail|industrial|mixed.use/i],
+  ["singleFamily", /single|detached|\bsfr?\b|house|home|residential/i],
+];
+
+const compact = (text: string) => text.toLowerCase().replace(/[^a-z]/g, "");
+
+/** Names that say nothing beyond the type, including common RESO values. */
+const BARE_TYPE_NAMES = new Set([
+  ...PROPERTY_TYPES.map(compact),
+  ...Object.values(PROPERTY_TYPE_LABELS).map(compact),
+  "residential",
+  "singlefamilyresidence",
+  "condominium",
+  "manufacturedhome",
+  "unimprovedland",
+]);
+
+/** Anything beyond the bare type is kept as the style. */
+export const parsePropertyType = (
+  text: string
+): Pick<ListingFormState, "propertyType" | "style"> => {
+  const trimmed = text.trim();
+  const type =
+    TYPE_PATTERNS.find(([, re]) => re.test(trimmed))?.[0] ?? "other";
+  const bare = !trimmed || BARE_TYPE_NAMES.has(compact(trimmed));
+  return { propertyType: type, style: bare ? "" : trimmed };
+};
+
+/** "3.5", "3.5ba", "2 full, 1 half" → full and half bath counts. */
+export const parseBaths = (
+  text: string
+): Pick<ListingFormState, "fullBaths" | "halfBaths"> => {
+  const full = /(\d+)\s*full/i.exec(text);
+  const half = /(\d+)\s*half/i.exec(text);
+  if (full || half) {
+    return {
+      fullBaths: full ? Number(full[1]) : undefined,
+      halfBaths: half ? Number(half[1]) : undefined,
+    };
+  }
+  const total = firstNumber(text);
+  if (total === undefined) return {};
+  const whole = Math.floor(total);
+  return { fullBaths: whole, halfBaths: total > whole ? 1 : undefined };
+};
+
+/** "2,400 sf", "0.25ac", "120 m2"; a bare number uses `fallback`. */
+export const parseArea = (text: string, fallback: AreaUnit) => {
+  const value = firstNumber(text);
+  if (value === undefined) return undefined;
+  const unit: AreaUnit = /\bac(re)?s?\b|\d\s*ac\b/i.test(text)
+    ? "acres"
+    : /m²|\bm2\b|\d\s*m2\b|sq\.?\s*m\b|square\s+met/i.test(text)
+    ? "m2"
+    : /sq|sf|ft/i.test(text)
+    ? "sqft"
+    : fallback;
+  return { value, unit };
+};
+
+/** Currency named by a symbol or code; a bare "$" stays ambiguous. */
+export const detectCurrency = (text: string): Currency | undefined => {
+  if (/€|\bEUR\b/i.test(text)) return "EUR";
+  if (/MX\$|\bMXN\b/i.test(text)) return "MXN";
+  if (/C(A)?\$|\bCAD\b/i.test(text)) return "CAD";
+  if (/US\$|\bUSD\b/i.test(text)) return "USD";
+  return undefined;
+};
+
+const count = (text?: string) => {
+  const n = text ? firstNumber(text) : undefined;
+  return n === undefined ? undefined : Math.floor(n);
+};
+
+/** Typed form values from free text; unreadable numbers are left out. */
+export const textToFormFields = (
+  fields: TextFields
+): Partial<ListingFormState> => {
+  const patch: Partial<ListingFormState> = {};
+  const { propertyType, beds, baths, livingArea, lotSize, yearBuilt, price } =
+    fields;
+
+  for (const key of [
+    "address",
+    "parking",
+    "neighborhood",
+    "highlights",
+  ] as const) {
+    if (fields[key] !== undefined) patch[key] = fields[key];
+  }
+  if (propertyType) Object.assign(patch, parsePropertyType(propertyType));
+  if (price) {
+    // Imports pass the price as written, so "€" or "CAD" is still there.
+    patch.price = price;
+    const currency = detectCurrency(price);
+    if (currency) patch.currency = currency;
+  }
+  if (beds) patch.beds = count(beds);
+  if (baths) Object.assign(patch, parseBaths(baths));
+  if (yearBuilt) patch.yearBuilt = count(yearBuilt);
+
+  const living = livingArea && parseArea(livingArea, "sqft");
+  if (living) {
+    patch.livingArea = living.value;
+    patch.livingAreaUnit = living.unit === "acres" ? "sqft" : living.unit;
+  }
+  // A bare "0.25" is a lot in acres; a bare "6500" is square feet.
+  const lotFallback =
+    (firstNumber(lotSize ?? "") ?? 0) < 500 ? "acres" : "sqft";
+  const lot = lotSize && parseArea(lotSize, lotFallback);
+  if (lot) {
+    patch.lotSize = lot.value;
+    patch.lotSizeUnit = lot.unit;
+  }
+  return patch;
+};
+
+// -----------------------------
+// TYPED VALUES → TEXT
+// -----------------------------
+export const formatArea = (value: number | undefined, unit: AreaUnit) =>
+  value === undefined
+    ? ""
+    : `${value.toLocaleString("en-US")} ${AREA_UNIT_LABELS[unit]}`;
+
+/** "3" or "3 full, 1 half". */
+export const formatBaths = ({
+  fullBaths,
+  halfBaths,
+}: Pick<ListingFormState, "fullBaths" | "halfBaths">) => {
+  if (!halfBaths) return fullBaths === undefined ? "" : String(fullBaths);
+  return `${fullBaths ?? 0} full, ${halfBaths} half`;
+};
+
+export const formatPropertyType = ({
+  propertyType,
+  style,
+}: Pick<ListingFormState, "propertyType" | "style">) =>
+  style
+    ? `${PROPERTY_TYPE_LABELS[propertyType]} (${style})`
+    : PROPERTY_TYPE_LABELS[propertyType];
+
+/** A text field as shown to the agent, e.g. when comparing imports. */
+export const formFieldText = (
+  form: ListingFormState,
+  field: keyof TextFields
+): string => {
+  switch (field) {
+    case "propertyType":
+      return formatPropertyType(form);
+    case "price":
+      return form.price
+        ? formatPrice(
+            form.price,
+            form.currency,
+            form.language,
+            form.listingType === "rental"
+          )
+        : "";
+    case "baths":
+      return formatBaths(form);
+    case "livingArea":
+      return formatArea(form.livingArea, form.livingAreaUnit);
+    case "lotSize":
+      return formatArea(form.lotSize, form.lotSizeUnit);
+    case "beds":
+    case "yearBuilt":
+      return form[field] === undefined ? "" : String(form[field]);
+    default:
+      return form[field] ?? "";
+  }
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { textToFormFields } from "./propertyFields";
+import { mapPropertyImport, recordToFormFields } from "./propertyImport";
+
+const importedPrice = (input: string) =>
+  mapPropertyImport(input).fields.price?.[0].value;
+
+describe("price import", () => {
+  it.each(["$1.2M", "850k", "€450.000"])(
+    "keeps %s from a CSV as written",
+    (price) => {
+      expect(importedPrice(`Address,Beds,ListPrice\n1 A St,3,"${price}"`)).toBe(
+        price
+      );
+    }
+  );
+
+  it("keeps a RESO list price with its suffix", () => {
+    expect(importedPrice(JSON.stringify({ ListPrice: "$1.2M" }))).toBe(
+      "$1.2M"
+    );
+  });
+
+  it.each([
+    ["Just listed at $1.2M with ocean views", "$1.2M"],
+    ["Offered at 450.000 € in the old town", "450.000 €"],
+    ["Priced at €450.000.", "€450.000"],
+    ["Asking MX$3,500,000 for the villa", "MX$3,500,000"],
+  ])("finds the price in %j", (text, price) => {
+    expect(importedPrice(text)).toBe(price);
+  });
+
+  it("skips monthly amounts in listing text", () => {
+    expect(importedPrice("HOA is $350/mo, taxes included")).toBeUndefined();
+  });
+
+  it("reads the value the form shows", () => {
+    expect(recordToFormFields({ ListPrice: "850k" }).price).toBe("850k");
+  });
+});
+
+describe("currency import", () => {
+  it.each([
+    ["€450.000", "EUR"],
+    ["MX$3,500,000", "MXN"],
+    ["CAD 899,000", "CAD"],
+  ])("picks the currency of %s", (price, currency) => {
+    expect(recordToFormFields({ ListPrice: price }).currency).toBe(currency);
+  });
+
+  it("leaves a bare $ to the form's currency", () => {
+    expect(recordToFormFields({ ListPrice: "$1.2M" }).currency).toBeUndefined();
+  });
+
+  it("picks the currency from pasted listing text", () => {
+    const price = importedPrice("Offered at 450.000 € in the old town");
+    expect(textToFormFields({ price }).currency).toBe("EUR");
+  });
+});
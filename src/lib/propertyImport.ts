@@ -0,0 +1,349 @@
+import { csvToRecords, parseCsv } from "./csv";
+import {
+  formatBaths,
+  textToFormFields,
+  type TextFields,
+} from "./propertyFields";
+
+// -----------------------------
+// TYPES
+// -----------------------------
+/** Imports arrive as text; `textToFormFields` turns them into form values. */
+export type ImportableField = keyof TextFields;
+
+export type ImportFormat = "reso-json" | "csv" | "text";
+
+export type ImportCandidate = {
+  value: string;
+  /** Where the value came from, e.g. "BedroomsTotal" or a text snippet. */
+  source: string;
+};
+
+export type ImportMapping = {
+  format: ImportFormat;
+  fields: Partial<Record<ImportableField, ImportCandidate[]>>;
+  unmapped: { key: string; value: string }[];
+  /** Set when the input held several records and only the first was used. */
+  note?: string;
+};
+
+// -----------------------------
+// FIELD MAP
+// -----------------------------
+type FieldRule = {
+  field: ImportableField;
+  format?: (value: string) => string;
+};
+
+/** Appends the unit to bare numbers; "2,400 sq ft" is left as typed. */
+const withUnit = (unit: string) => (value: string) =>
+  /[a-z²]/i.test(value) ? value : `${value} ${unit}`;
+
+/**
+ * RESO Data Dictionary names plus common CSV/MLS-sheet aliases. Keys are
+ * normalized: lowercase with spaces and punctuation removed.
+ */
+const FIELD_RULES: Record<string, FieldRule> = {
+  propertytype: { field: "propertyType" },
+  propertysubtype: { field: "propertyType" },
+  type: { field: "propertyType" },
+  unparsedaddress: { field: "address" },
+  address: { field: "address" },
+  // Kept as written: readPrice handles "$1.2M", "850k" and "€450.000".
+  listprice: { field: "price" },
+  price: { field: "price" },
+  bedroomstotal: { field: "beds" },
+  bedrooms: { field: "beds" },
+  beds: { field: "beds" },
+  bathroomstotalinteger: { field: "baths" },
+  bathroomstotaldecimal: { field: "baths" },
+  bathrooms: { field: "baths" },
+  baths: { field: "baths" },
+  livingarea: { field: "livingArea", format: withUnit("sqft") },
+  buildingareatotal: { field: "livingArea", format: withUnit("sqft") },
+  squarefeet: { field: "livingArea", format: withUnit("sqft") },
+  sqft: { field: "livingArea", format: withUnit("sqft") },
+  lotsizeacres: { field: "lotSize", format: withUnit("acres") },
+  lotsizesquarefeet: { field: "lotSize", format: withUnit("sqft") },
+  lotsize: { field: "lotSize" },
+  yearbuilt: { field: "yearBuilt" },
+  garagespaces: { field: "parking", format: withUnit("car garage") },
+  parkingtotal: { field: "parking", format: withUnit("parking spaces") },
+  parkingfeatures: { field: "parking" },
+  parking: { field: "parking" },
+  subdivisionname: { field: "neighborhood" },
+  mlsareamajor: { field: "neighborhood" },
+  neighborhood: { field: "neighborhood" },
+  subdivision: { field: "neighborhood" },
+  publicremarks: { field: "highlights" },
+  remarks: { field: "highlights" },
+  description: { field: "highlights" },
+  highlights: { field: "highlights" },
+};
+
+const ADDRESS_PARTS = [
+  "streetnumber",
+  "streetdirprefix",
+  "streetname",
+  "streetsuffix",
+  "unitnumber",
+  "city",
+  "stateorprovince",
+  "postalcode",
+];
+
+/** Keys that carry no listing content and are never reported as unmapped. */
+const IGNORED = /^@odata|^listingkey$|^modificationtimestamp$/;
+
+const normalizeKey = (key: string) =>
+  key.toLowerCase().replace(/[^a-z0-9@]/g, "");
+
+const stringify = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) {
+    const parts = value.map(stringify).filter(Boolean);
+    return parts.length ? parts.join(", ") : null;
+  }
+  if (typeof value === "object") return null;
+  const text = String(value).trim();
+  return text || null;
+};
+
+const addCandidate = (
+  mapping: ImportMapping,
+  field: ImportableField,
+  candidate: ImportCandidate
+) => {
+  const list = (mapping.fields[field] ??= []);
+  if (!list.some((c) => c.value === candidate.value)) list.push(candidate);
+};
+
+// -----------------------------
+// STRUCTURED RECORDS (RESO JSON / CSV)
+// -----------------------------
+const mapRecord = (
+  record: Record<string, unknown>,
+  format: ImportFormat
+): ImportMapping => {
+  const mapping: ImportMapping = { format, fields: {}, unmapped: [] };
+  const addressParts: Record<string, string> = {};
+  let bathsFull: number | null = null;
+  let bathsHalf: number | null = null;
+
+  for (const [key, raw] of Object.entries(record)) {
+    const norm = normalizeKey(key);
+    if (IGNORED.test(norm)) continue;
+    const value = stringify(raw);
+    if (value === null) continue;
+
+    if (ADDRESS_PARTS.includes(norm)) {
+      addressParts[norm] = value;
+      continue;
+    }
+    if (norm === "bathroomsfull") {
+      bathsFull = Number(value);
+      continue;
+    }
+    if (norm === "bathroomshalf") {
+      bathsHalf = Number(value);
+      continue;
+    }
+
+    const rule = FIELD_RULES[norm];
+    if (!rule) {
+      mapping.unmapped.push({ key, value });
+      continue;
+    }
+    addCandidate(mapping, rule.field, {
+      value: rule.format ? rule.format(value) : value,
+      source: key,
+    });
+  }
+
+  const street = ADDRESS_PARTS.slice(0, 5)
+    .map((k) => addressParts[k])
+    .filter(Boolean)
+    .join(" ");
+  const locality = [
+    addressParts.city,
+    [addressParts.stateorprovince, addressParts.postalcode]
+      .filter(Boolean)
+      .join(" "),
+  ]
+    .filter(Boolean)
+    .join(", ");
+  const address = [street, locality].filter(Boolean).join(", ");
+  if (address) {
+    addCandidate(mapping, "address", {
+      value: address,
+      source: "Street/City/State/PostalCode",
+    });
+  }
+
+  if (bathsFull !== null && !Number.isNaN(bathsFull)) {
+    const half = bathsHalf && !Number.isNaN(bathsHalf) ? bathsHalf : 0;
+    addCandidate(mapping, "baths", {
+      value: formatBaths({ fullBaths: bathsFull, halfBaths: half }),
+      source: "BathroomsFull + BathroomsHalf",
+    });
+  }
+
+  return mapping;
+};
+
+// -----------------------------
+// PASTED MLS TEXT
+// -----------------------------
+const TEXT_PATTERNS: {
+  field: ImportableField;
+  re: RegExp;
+  format: (m: RegExpMatchArray) => string;
+}[] = [
+  {
+    field: "beds",
+    re: /(\d+)\s*(?:beds?|bd|br|bedrooms?)\b/i,
+    format: (m) => m[1],
+  },
+  {
+    field: "baths",
+    re: /(\d+(?:\.\d+)?)\s*(?:baths?|ba|bathrooms?)\b/i,
+    format: (m) => m[1],
+  },
+  {
+    field: "livingArea",
+    re: /([\d,]{3,})\s*(?:sq\.?\s*ft\.?|sf|square\s+feet)/i,
+    format: (m) => `${m[1].replace(/,/g, "")} sqft`,
+  },
+  {
+    field: "price",
+    // "$1.2M", "MX$3,500,000", "€450.000" or "450.000 €"; not "$3,200/mo".
+    re: /(?:(?:US|MX|CA?)?\$|€|\b(?:USD|EUR|MXN|CAD)\b)\s?\d[\d.,]*(?:\s?(?:k|mm?|million)\b)?(?![\d.,]*\s*(?:k|mm?)?\s*\/)|\d[\d.,]*\s?(?:€|\b(?:USD|EUR|MXN|CAD)\b)(?!\s*\/)/i,
+    format: (m) => m[0].trim().replace(/[.,]+$/, ""),
+  },
+  {
+    field: "yearBuilt",
+    re: /\bbuilt(?:\s+in)?\s*:?\s*((?:18|19|20)\d{2})\b/i,
+    format: (m) => m[1],
+  },
+  {
+    field: "lotSize",
+    re: /(\d+(?:\.\d+)?)\s*(?:acres?|ac)\b/i,
+    format: (m) => `${m[1]} acres`,
+  },
+  {
+    field: "parking",
+    re: /(\d+)[-\s]car\s+garage/i,
+    format: (m) => `${m[1]}-car garage`,
+  },
+];
+
+const mapText = (text: string): ImportMapping => {
+  const mapping: ImportMapping = { format: "text", fields: {}, unmapped: [] };
+  const remarks: string[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    // "Bedrooms: 3" style lines from MLS printouts.
+    const kv = /^([A-Za-z][A-Za-z .#/()-]{1,40}):\s*(.+)$/.exec(trimmed);
+    if (kv) {
+      const rule = FIELD_RULES[normalizeKey(kv[1])];
+      if (rule) {
+        addCandidate(mapping, rule.field, {
+          value: rule.format ? rule.format(kv[2].trim()) : kv[2].trim(),
+          source: kv[1].trim(),
+        });
+      } else {
+        mapping.unmapped.push({ key: kv[1].trim(), value: kv[2].trim() });
+      }
+      continue;
+    }
+
+    if (trimmed.split(/\s+/).length >= 8) remarks.push(trimmed);
+  }
+
+  for (const { field, re, format } of TEXT_PATTERNS) {
+    if (mapping.fields[field]) continue;
+    const m = text.match(re);
+    if (m) {
+      addCandidate(mapping, field, { value: format(m), source: `"${m[0]}"` });
+    }
+  }
+
+  if (remarks.length && !mapping.fields.highlights) {
+    addCandidate(mapping, "highlights", {
+      value: remarks.join(" "),
+      source: "remarks text",
+    });
+  }
+
+  return mapping;
+};
+
+// -----------------------------
+// ENTRY POINT
+// -----------------------------
+export const detectImportFormat = (input: string): ImportFormat => {
+  const trimmed = input.trim();
+  if (/^[[{]/.test(trimmed)) return "reso-json";
+  const [header = [], row] = parseCsv(trimmed);
+  const looksLikeHeader =
+    header.length >= 3 && header.every((h) => /^[\w .#/()-]{1,40}$/.test(h));
+  return looksLikeHeader && row?.length === header.length ? "csv" : "text";
+};
+
+const pickRecord = (json: unknown): { record: unknown; count: number } => {
+  if (Array.isArray(json)) return { record: json[0], count: json.length };
+  if (json && typeof json === "object" && "value" in json) {
+    // RESO Web API (OData) responses wrap records in `value`.
+    return pickRecord((json as { value: unknown }).value);
+  }
+  return { record: json, count: 1 };
+};
+
+/** Throws a readable error when the input cannot be read at all. */
+export const mapPropertyImport = (input: string): ImportMapping => {
+  const format = detectImportFormat(input);
+
+  if (format === "reso-json") {
+    let json: unknown;
+    try {
+      json = JSON.parse(input);
+    } catch {
+      throw new Error("Could not parse JSON. Check the RESO record.");
+    }
+    const { record, count } = pickRecord(json);
+    if (!record || typeof record !== "object") {
+      throw new Error("JSON does not contain a property record.");
+    }
+    const mapping = mapRecord(record as Record<string, unknown>, format);
+    if (count > 1) mapping.note = `Using record 1 of ${count}.`;
+    return mapping;
+  }
+
+  if (format === "csv") {
+    const records = csvToRecords(input);
+    if (!records.length) throw new Error("CSV has a header but no rows.");
+    const mapping = mapRecord(records[0], format);
+    if (records.length > 1) {
+      mapping.note = `Using row 1 of ${records.length}.`;
+    }
+    return mapping;
+  }
+
+  return mapText(input);
+};
+
+/** First candidate per field, for unattended imports such as batch rows. */
+export const recordToFormFields = (record: Record<string, unknown>) => {
+  const { fields } = mapRecord(record, "csv");
+  return textToFormFields(
+    Object.fromEntries(
+      Object.entries(fields).map(([field, candidates]) => [
+        field,
+        candidates[0].value,
+      ])
+    )
+  );
+};
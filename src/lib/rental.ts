@@ -0,0 +1,111 @@
+import { formatPrice } from "./format";
+import type { ListingFormState } from "./listing";
+
+// -----------------------------
+// LEASE TERMS
+// -----------------------------
+export const LEASE_TERMS = [
+  "monthToMonth",
+  "sixMonths",
+  "twelveMonths",
+  "eighteenMonths",
+  "twentyFourMonths",
+  "flexible",
+] as const;
+
+export type LeaseTerm = (typeof LEASE_TERMS)[number];
+
+export const LEASE_TERM_LABELS: Record<LeaseTerm, string> = {
+  monthToMonth: "Month-to-month",
+  sixMonths: "6 months",
+  twelveMonths: "12 months",
+  eighteenMonths: "18 months",
+  twentyFourMonths: "24 months",
+  flexible: "Flexible",
+};
+
+export const PET_POLICIES = [
+  "noPets",
+  "catsOnly",
+  "dogsOnly",
+  "catsAndDogs",
+  "caseByCase",
+] as const;
+
+export type PetPolicy = (typeof PET_POLICIES)[number];
+
+export const PET_POLICY_LABELS: Record<PetPolicy, string> = {
+  noPets: "No pets",
+  catsOnly: "Cats OK",
+  dogsOnly: "Dogs OK",
+  catsAndDogs: "Cats & dogs OK",
+  caseByCase: "Pets case by case",
+};
+
+export const UTILITIES = [
+  "water",
+  "sewer",
+  "trash",
+  "gas",
+  "electricity",
+  "heat",
+  "internet",
+] as const;
+
+export type Utility = (typeof UTILITIES)[number];
+
+export const UTILITY_LABELS: Record<Utility, string> = {
+  water: "Water",
+  sewer: "Sewer",
+  trash: "Trash",
+  gas: "Gas",
+  electricity: "Electricity",
+  heat: "Heat",
+  internet: "Internet",
+};
+
+// -----------------------------
+// PROMPT TEXT
+// -----------------------------
+/**
+ * "June 1, 2026" from the date input's "2026-06-01", read as local time so
+ * the day does not shift.
+ */
+export const formatAvailableDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+
+/** "Security Deposit: $3,200" lines for the terms that were filled in. */
+export const rentalTermLines = (form: ListingFormState) => {
+  const utilities = (form.utilitiesIncluded ?? []).map(
+    (u) => UTILITY_LABELS[u]
+  );
+  return [
+    form.deposit &&
+      `Security Deposit: ${formatPrice(
+        form.deposit,
+        form.currency,
+        form.language
+      )}`,
+    form.leaseTerm && `Lease Term: ${LEASE_TERM_LABELS[form.leaseTerm]}`,
+    form.availableDate &&
+      `Available: ${formatAvailableDate(form.availableDate)}`,
+    form.petPolicy && `Pets: ${PET_POLICY_LABELS[form.petPolicy]}`,
+    utilities.length > 0 && `Utilities Included: ${utilities.join(", ")}`,
+    form.applicationRequirements?.trim() &&
+      `Application Requirements: ${form.applicationRequirements.trim()}`,
+  ].filter((line): line is string => !!line);
+};
+
+/**
+ * Rental ads draw the most Fair Housing complaints; these ride along with
+ * the property details so custom prompt templates get them too.
+ */
+export const RENTAL_FAIR_HOUSING_RULES = [
+  "Never state or imply a preference about source of income (no \"no Section 8\", \"no vouchers\" or \"employed only\"); give income requirements as a multiple of rent if provided.",
+  "A pet policy never limits assistance animals; do not mention them unless asked.",
+  "Do not describe who the unit suits (families, singles, couples, students, professionals, age groups) or limit occupants beyond what the details state.",
+];
@@ -0,0 +1,131 @@
+import { createId } from "./id";
+import type { ChannelKey } from "./channels";
+import type { ListingOutputs } from "./listing";
+
+// -----------------------------
+// TYPES
+// -----------------------------
+export type RevisionSource =
+  | { kind: "generated" }
+  | { kind: "rewrite"; instruction: string }
+  | { kind: "manual" };
+
+export type Revision = RevisionSource & {
+  id: string;
+  createdAt: string;
+  text: string;
+};
+
+/** Linear undo stack; `index` points at the revision currently shown. */
+export type FieldRevisions = {
+  entries: Revision[];
+  index: number;
+};
+
+export type OutputRevisions = Partial<Record<ChannelKey, FieldRevisions>>;
+
+// -----------------------------
+// STACK OPERATIONS
+// -----------------------------
+const makeRevision = (text: string, source: RevisionSource): Revision => ({
+  ...source,
+  id: createId(),
+  createdAt: new Date().toISOString(),
+  text,
+});
+
+export const initRevisions = (outputs: ListingOutputs): OutputRevisions =>
+  Object.fromEntries(
+    Object.entries(outputs).map(([key, text]) => [
+      key,
+      { entries: [makeRevision(text, { kind: "generated" })], index: 0 },
+    ])
+  );
+
+export const currentRevision = (revs: FieldRevisions) =>
+  revs.entries[revs.index];
+
+/** Appends a revision, dropping anything that had been undone. */
+export const pushRevision = (
+  revs: FieldRevisions = { entries: [], index: -1 },
+  text: string,
+  source: RevisionSource
+): FieldRevisions => {
+  if (currentRevision(revs)?.text === text) return revs;
+  const entries = [
+    ...revs.entries.slice(0, revs.index + 1),
+    makeRevision(text, source),
+  ];
+  return { entries, index: entries.length - 1 };
+};
+
+export const canUndo = (revs?: FieldRevisions) => !!revs && revs.index > 0;
+
+export const canRedo = (revs?: FieldRevisions) =>
+  !!revs && revs.index < revs.entries.length - 1;
+
+export const moveRevision = (
+  revs: FieldRevisions,
+  step: -1 | 1
+): FieldRevisions => ({
+  ...revs,
+  index: Math.min(Math.max(revs.index + step, 0), revs.entries.length - 1),
+});
+
+export const describeRevision = (rev: Revision) =>
+  rev.kind === "rewrite"
+    ? `Rewrite: ${rev.instruction}`
+    : rev.kind === "manual"
+    ? "Manual edit"
+    : "Generated";
+
+// -----------------------------
+// WORD DIFF
+// -----------------------------
+export type DiffPart = {
+  type: "same" | "added" | "removed";
+  text: string;
+};
+
+/** Word-level LCS diff; fine for listing-sized text. */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return parts;
+};
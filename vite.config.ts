@@ -1,9 +1,28 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { listingApiPlugin } from './server/api';
 
-export default defineConfig({
-  plugins: [react()],
-  optimizeDeps: {
-    exclude: ['lucide-react'],
-  },
+export default defineConfig(({ mode }) => {
+  // Load unprefixed vars too; only the server plugin sees them.
+  const env = loadEnv(mode, process.cwd(), '');
+
+  return {
+    plugins: [
+      react(),
+      listingApiPlugin({
+        apiKey: env.OPENAI_API_KEY,
+        mock: env.LISTING_API_MOCK === 'true',
+        openaiModels: env.OPENAI_MODELS,
+        localBaseUrl: env.LOCAL_LLM_BASE_URL,
+        localApiKey: env.LOCAL_LLM_API_KEY,
+        localModels: env.LOCAL_LLM_MODELS,
+        visionBaseUrl: env.VISION_BASE_URL,
+        visionApiKey: env.VISION_API_KEY,
+        visionModel: env.VISION_MODEL,
+      }),
+    ],
+    optimizeDeps: {
+      exclude: ['lucide-react'],
+    },
+  };
 });